@@ -1,4 +1,4 @@
-import React, { useMemo, useRef, useState } from "react";
+import React, { useEffect, useMemo, useRef, useState } from "react";
 import Papa from "papaparse";
 import {
   LineChart,
@@ -15,6 +15,8 @@ import {
   Legend,
   ReferenceLine,
   ResponsiveContainer,
+  ScatterChart,
+  Scatter,
 } from "recharts";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
@@ -27,18 +29,122 @@ import {
   SelectValue,
   MultiSelect,
 } from "@/components/ui/select";
+import {
+  coalesce,
+  detectColumnMapping,
+  headerSignature,
+  localDateFields,
+  mappingForHeaders,
+  mergeJiraRows,
+  parseCreated,
+  parseJiraIsoDate,
+  parseSlaHours,
+  withRowDefaults,
+  ym,
+  zonedParts,
+  zonedWallTimeToDate,
+  type JanisRow,
+  type JiraBuildResult,
+  type JiraColumnMapping,
+  type MappableField,
+  type Row,
+  type RowIssue,
+  type TimeZoneSettings,
+} from "@/ingest";
+import type { IngestRequest, IngestResponse } from "@/ingest.worker";
+import {
+  clearDatasets,
+  deleteDataset,
+  listDatasets,
+  loadDatasetRows,
+  loadSession,
+  newDatasetId,
+  saveDataset,
+  saveSession,
+  updateDatasetMeta,
+  type DatasetKind,
+  type StoredDatasetMeta,
+} from "@/datasetStore";
+import {
+  STATUS_CATEGORIES,
+  defaultStatusCategory,
+  isBacklogCategory,
+  statusCategory,
+  statusKey,
+  type StatusCategory,
+  type StatusTaxonomy,
+} from "@/statusTaxonomy";
+import { buildSnapshotHistory, toSnapshot, type Snapshot, type SnapshotHistory } from "@/snapshots";
+import { percentile } from "@/stats";
+import {
+  buildChangelogMetrics,
+  groupChangelogByKey,
+  parseChangelogCsv,
+  ticketHistory,
+  type ChangelogEvent,
+  type ChangelogMetrics,
+} from "@/changelog";
+import {
+  ABSENCE_REASONS,
+  DEFAULT_ROSTER,
+  agentKey,
+  availableAgentDays,
+  availableDaysForMonth,
+  monthRange,
+  newAgentId,
+  parseRosterCsv,
+  teamSizeForMonth,
+  type StaffAbsence,
+  type StaffAgent,
+} from "@/staffing";
+import {
+  DEFAULT_BUSINESS_CALENDAR,
+  WEEKDAY_LABELS,
+  holidayDates,
+  isIsoDate,
+  isNormalSchedule as isNormalScheduleIn,
+  isWorkingDay,
+  newCalendarId,
+  parseHolidayFile,
+  shiftIsoDate,
+  type BusinessCalendar,
+  type DaySchedule,
+} from "@/businessCalendar";
 
 /**
  * Janis Commerce - Care Executive Dashboard (React)
  *
  * Reglas importantes:
- * - Fechas: 19/ene/26 12:47 PM (meses en español)
+ * - Fechas: 19/ene/26 12:47 PM, 19/jan/26 12:47 (meses es/pt/en, 12h o 24h) o ISO-8601
+ * - Zonas horarias: "Zona export" interpreta la hora del CSV; "Zona vista" define mes,
+ *   heatmaps y horario Normal/Guardia.
+ * - Horario Normal/Guardia: calendario hábil editable (días y horas por día de semana) más
+ *   feriados importados en ICS o CSV (localStorage); por defecto lunes a viernes 06:00-23:00.
+ * - Costo de guardia: por ticket en Guardia o por turno (1 turno por día calendario dentro del rango
+ *   del export, prorrateado por la parte de la guardia del equipo que corresponde a la vista).
+ * - Ficha de cliente: KPIs, interanual y reporte ejecutivo de una organización (rango de fechas
+ *   seleccionado, sin filtros de asignado/estado/dimensiones).
+ * - Tiempo de resolución: Creada → Resuelta (o Actualizada si falta), solo estados "resuelto";
+ *   mediana y p90 por mes de creación.
  * - SLA Response: Cumplido si valor >= 0 o vacío. Incumplido solo si valor < 0.
  *   (Incluye 0, 0:00, 00:00 como Cumplido.)
  * - Columna SLA a considerar: "Campo personalizado (Time to first response)" (con o sin punto final).
- * - Organizaciones: basarse en "Campo personalizado (Organizations)"
- * - Excluir estados Block/Hold del conteo
- * - Dotación: 5 personas (Jun-2024 a Jun-2025), 3 personas (Jul-2025+)
+ * - SLA Resolution: "Campo personalizado (Time to resolution)", misma regla que Response.
+ * - Organizaciones: basarse en "Campo personalizado (Organizations)"; el cruce con el client code
+ *   de Janis usa nombre normalizado o la tabla de alias (localStorage, importable/exportable en CSV).
+ * - Estados: taxonomía editable (abierto, esperando cliente, resuelto, cancelado, excluido);
+ *   por defecto Block/Hold quedan excluidos del conteo.
+ * - Dotación: roster editable de agentes (inicio/fin, % FTE; localStorage, importable en CSV).
+ *   Personas por mes = FTE prorrateado por días activos; sin roster guardado aplica el histórico
+ *   (5 personas Jun-2024 a Jun-2025, 3 personas Jul-2025+).
+ * - Ausencias por agente: descuentan días-agente hábiles disponibles (tickets por día-agente
+ *   disponible, global y por asignado).
+ * - Columnas Jira: se mapean en un wizard tras elegir el CSV; los perfiles guardados
+ *   (localStorage) se aplican solos cuando la firma de headers coincide.
+ * - Datasets: cada importación se guarda en IndexedDB junto con los filtros y se restaura
+ *   al recargar (panel "Datasets" para cambiar o borrar).
+ * - Reaperturas: cerrado → abierto/en espera, desde el changelog Jira (botón "Changelog", no se
+ *   persiste) o entre exports etiquetados con fecha de snapshot en "Datasets".
  */
 
 // --- UI (estilo similar al screenshot) ---
@@ -64,10 +170,6 @@ const PIE_COLORS = [
   "#94a3b8", // Otros
 ];
 
-function coalesce(a: any, b: any) {
-  return a === null || a === undefined ? b : a;
-}
-
 function hexToRgb(hex: string) {
   const h = String(hex || "").replace("#", "").trim();
   if (h.length !== 6) return null;
@@ -89,129 +191,41 @@ function heatBg(count: number, max: number) {
   return { backgroundColor: bg, color: text };
 }
 
-const MONTH_MAP: Record<string, string> = {
-  ene: "Jan",
-  feb: "Feb",
-  mar: "Mar",
-  abr: "Apr",
-  may: "May",
-  jun: "Jun",
-  jul: "Jul",
-  ago: "Aug",
-  sep: "Sep",
-  oct: "Oct",
-  nov: "Nov",
-  dic: "Dec",
-};
-
-function normalizeSpanishMonth(dateStr: string) {
-  if (!dateStr) return "";
-  return String(dateStr).replace(
-    /\/(ene|feb|mar|abr|may|jun|jul|ago|sep|oct|nov|dic)\//gi,
-    (m) => {
-      const key = m.split("/").join("").toLowerCase();
-      const repl = MONTH_MAP[key] || key;
-      return `/${repl}/`;
-    }
-  );
-}
+// Zonas horarias ofrecidas en los selectores ("local" = zona del navegador)
+const TIME_ZONE_OPTIONS = [
+  { value: "local", label: "Navegador (local)" },
+  { value: "America/Santiago", label: "Santiago (CL)" },
+  { value: "America/Sao_Paulo", label: "São Paulo (BR)" },
+  { value: "America/Mexico_City", label: "Ciudad de México (MX)" },
+  { value: "America/Bogota", label: "Bogotá (CO)" },
+  { value: "America/Argentina/Buenos_Aires", label: "Buenos Aires (AR)" },
+  { value: "UTC", label: "UTC" },
+];
 
-function parseCreated(dateStr: string) {
-  if (!dateStr) return null;
-  const en = normalizeSpanishMonth(dateStr).trim();
+const TIME_ZONE_STORAGE_KEY = "janis-care.time-zones";
 
-  // Example: 19/Jan/26 12:47 PM
-  const match = en.match(
-    /^(\d{1,2})\/(Jan|Feb|Mar|Apr|May|Jun|Jul|Aug|Sep|Oct|Nov|Dec)\/(\d{2})\s+(\d{1,2}):(\d{2})\s*(AM|PM)$/i
-  );
-  if (!match) return null;
-
-  const dd = Number(match[1]);
-  const mon = match[2];
-  const yy = Number(match[3]);
-  const hh = Number(match[4]);
-  const mm = Number(match[5]);
-  const ampm = String(match[6]).toUpperCase();
-
-  const year = yy >= 70 ? 1900 + yy : 2000 + yy;
-  const months = [
-    "Jan",
-    "Feb",
-    "Mar",
-    "Apr",
-    "May",
-    "Jun",
-    "Jul",
-    "Aug",
-    "Sep",
-    "Oct",
-    "Nov",
-    "Dec",
-  ];
-  const monthIndex = months.indexOf(
-    mon[0].toUpperCase() + mon.slice(1).toLowerCase()
+function loadTimeZoneSettings() {
+  return loadStoredJson<TimeZoneSettings>(TIME_ZONE_STORAGE_KEY, { source: "local", display: "local" }, (v) =>
+    isJsonObject(v) ? { source: String(v.source || "local"), display: String(v.display || "local") } : null
   );
-  if (monthIndex < 0) return null;
-
-  let hour = hh;
-  if (ampm === "PM" && hour !== 12) hour += 12;
-  if (ampm === "AM" && hour === 12) hour = 0;
-
-  const d = new Date(year, monthIndex, dd, hour, mm, 0, 0);
-  return Number.isNaN(d.getTime()) ? null : d;
 }
 
-function ym(date: Date) {
-  const y = date.getFullYear();
-  const m = String(date.getMonth() + 1).padStart(2, "0");
-  return `${y}-${m}`;
+function describeDateFormats(formats: Record<string, number>) {
+  return Object.entries(formats)
+    .sort((a, b) => b[1] - a[1])
+    .map(([format, n]) => `${format}: ${formatInt(n)}`)
+    .join(" · ");
 }
 
-function teamSizeForMonth(monthStr: string) {
-  if (!monthStr || !monthStr.includes("-")) return null;
-  const parts = monthStr.split("-");
-  if (parts.length !== 2) return null;
-  const y = Number(parts[0]);
-  const m = Number(parts[1]);
-  if (!Number.isFinite(y) || !Number.isFinite(m)) return null;
-
-  // Jun 2024 to Jun 2025 inclusive => 5
-  const inFive =
-    (y > 2024 || (y === 2024 && m >= 6)) &&
-    (y < 2025 || (y === 2025 && m <= 6));
-  if (inFive) return 5;
-
-  // Jul 2025 onward => 3
-  const inThree = y > 2025 || (y === 2025 && m >= 7);
-  if (inThree) return 3;
-
-  return null;
+// Re-deriva mes/hora/día en la zona de visualización (la de origen aplica al importar)
+function relocalizeRows(rows: Row[], displayTimeZone: string) {
+  return rows.map((r) => ({ ...withRowDefaults(r), ...localDateFields(r.creada, displayTimeZone) }));
 }
 
-function parseSlaHours(s: any) {
-  if (s == null) return null;
-  const str = String(s).trim();
-  if (!str) return null;
-
-  // Numeric (e.g., 1.25, -2, -2,5)
-  const numRe = new RegExp("^[+-]?\\d+(?:[\\.,]\\d+)?$");
-  if (numRe.test(str)) {
-    const num = Number(str.replace(",", "."));
-    return Number.isFinite(num) ? num : null;
-  }
-
-  // HH:MM with optional sign (e.g., -0:30)
-  const hmRe = new RegExp("^([+-])?(\\d+)\\s*:\\s*(\\d{1,2})$");
-  const match = str.match(hmRe);
-  if (!match) return null;
-
-  const signChar = match[1] || "+";
-  const hoursAbs = Number(match[2]);
-  const minutesAbs = Number(match[3]);
-  if (!Number.isFinite(hoursAbs) || !Number.isFinite(minutesAbs)) return null;
-
-  const val = hoursAbs + minutesAbs / 60;
-  return signChar === "-" ? -val : val;
+function monthBounds(months: string[]) {
+  if (!months.length) return null;
+  const sorted = Array.from(new Set(months)).sort();
+  return { minMonth: sorted[0], maxMonth: sorted[sorted.length - 1] };
 }
 
 function pct(n: number, d: number) {
@@ -228,14 +242,21 @@ function formatPct(n: any) {
   return `${val.toFixed(2)}%`;
 }
 
+function formatHours(h: number | null | undefined) {
+  if (h == null || !Number.isFinite(h)) return "—";
+  if (Math.abs(h) < 48) return `${h.toFixed(1)} h`;
+  return `${(h / 24).toFixed(1)} d`;
+}
+
 function monthDeltaPct(current: number, previous: number) {
   if (!Number.isFinite(previous) || previous === 0) return null;
   return ((current - previous) / previous) * 100;
 }
 
-function formatDateCLShort(d: Date) {
-  const dd = String(d.getDate()).padStart(2, "0");
-  const mm = String(d.getMonth() + 1).padStart(2, "0");
+function formatDateCLShort(d: Date, timeZone = "local") {
+  const p = zonedParts(d, timeZone);
+  const dd = String(p.day).padStart(2, "0");
+  const mm = String(p.month).padStart(2, "0");
   return `${dd}/${mm}`;
 }
 
@@ -284,17 +305,6 @@ function toTitleCaseWords(s: string) {
     .replace(/\p{L}[\p{L}\p{N}'-]*/gu, (w) => w.charAt(0).toLocaleUpperCase("es") + w.slice(1));
 }
 
-function getField(row: Record<string, any>, candidates: string[]) {
-  for (const c of candidates) {
-    const v = row[c];
-    if (v !== undefined && v !== null && String(v).trim() !== "") return v;
-  }
-  for (const c of candidates) {
-    if (Object.prototype.hasOwnProperty.call(row, c)) return row[c];
-  }
-  return undefined;
-}
-
 function pieTooltipFormatterFactory(
   data: Array<{ name: string; tickets: number }>
 ) {
@@ -425,6 +435,7 @@ function buildExecutiveReportHtml(args: {
     org: string;
     assignee: string;
     status: string;
+    dimensions?: string;
   };
   autoRange: { minMonth: string | null; maxMonth: string | null };
   executive: {
@@ -437,6 +448,8 @@ function buildExecutiveReportHtml(args: {
       mom: number | null;
       status: "good" | "warn" | "bad" | "neutral";
     }>;
+    reopens?: { current: number; mom: number | null; keys: string[] } | null;
+    reopenRate?: { rate: number; reopened: number; resolved: number; mom: number | null } | null;
   };
 }) {
   const { title, generatedAt, filters, autoRange, executive } = args;
@@ -455,6 +468,7 @@ function buildExecutiveReportHtml(args: {
     `Org: ${f(filters.org)}`,
     `Asignado: ${f(filters.assignee)}`,
     `Estado: ${f(filters.status)}`,
+    ...(filters.dimensions ? [`Otros: ${f(filters.dimensions)}`] : []),
   ].join(" • ");
 
   const momText = (v: number | null) => {
@@ -537,6 +551,28 @@ function buildExecutiveReportHtml(args: {
       <div class="block">
         <h2>3. Calidad / Impacto</h2>
         <div class="subtle">Seguimiento de reaperturas, estabilidad de servicio y señales de riesgo para la experiencia del cliente.</div>
+        ${
+          executive.reopenRate
+            ? `<div style="margin-top:6px;">Tasa de reapertura (changelog): <b>${f(
+                formatPct(executive.reopenRate.rate)
+              )}</b> (${f(formatInt(executive.reopenRate.reopened))} de ${f(
+                formatInt(executive.reopenRate.resolved)
+              )} resueltos) · ${f(momText(executive.reopenRate.mom))}</div>`
+            : ""
+        }
+        ${
+          executive.reopens
+            ? `<div style="margin-top:6px;">Reaperturas entre snapshots: <b>${f(
+                formatInt(executive.reopens.current)
+              )}</b> · ${f(momText(executive.reopens.mom))}${
+                executive.reopens.keys.length ? `<div class="subtle">${f(executive.reopens.keys.join(", "))}</div>` : ""
+              }</div>`
+            : executive.reopenRate
+            ? ""
+            : `<div class="subtle" style="margin-top:6px;">
+                Sin changelog ni historial de snapshots para medir reaperturas.
+              </div>`
+        }
       </div>
 
       <div class="block">
@@ -551,6 +587,43 @@ function buildExecutiveReportHtml(args: {
   </html>`;
 }
 
+type DimensionKey = "priority" | "issueType" | "requestType" | "labels" | "components";
+
+const ROW_DIMENSIONS: Array<{ key: DimensionKey; label: string; empty: string }> = [
+  { key: "priority", label: "Prioridad", empty: "(Sin prioridad)" },
+  { key: "issueType", label: "Tipo de incidencia", empty: "(Sin tipo)" },
+  { key: "requestType", label: "Tipo de solicitud", empty: "(Sin tipo de solicitud)" },
+  { key: "labels", label: "Etiqueta", empty: "(Sin etiqueta)" },
+  { key: "components", label: "Componente", empty: "(Sin componente)" },
+];
+
+type DimensionFilters = Record<DimensionKey, string>;
+
+const ALL_DIMENSION_FILTERS: DimensionFilters = {
+  priority: "all",
+  issueType: "all",
+  requestType: "all",
+  labels: "all",
+  components: "all",
+};
+
+function rowDimensionValues(r: Row, key: DimensionKey): string[] {
+  const v = r[key];
+  if (Array.isArray(v)) return v;
+  return v ? [v] : [];
+}
+
+function matchesDimensionFilters(r: Row, filters: DimensionFilters) {
+  return ROW_DIMENSIONS.every(
+    ({ key }) => filters[key] === "all" || rowDimensionValues(r, key).includes(filters[key])
+  );
+}
+
+function describeDimensionFilters(filters: DimensionFilters) {
+  return ROW_DIMENSIONS.filter(({ key }) => filters[key] !== "all")
+    .map(({ key, label }) => `${label}: ${filters[key]}`)
+    .join(", ");
+}
 
 function filterRowsForPeriod(
   sourceRows: Row[],
@@ -558,18 +631,18 @@ function filterRowsForPeriod(
   endMonth: string | null,
   orgFilterValue: string[],
   assigneeFilterValue: string,
-  statusFilterValue: string
+  statusFilterValue: string,
+  dimensionFiltersValue: DimensionFilters,
+  orgKey: OrgKeyResolver
 ) {
   if (!startMonth || !endMonth) return [] as Row[];
   return sourceRows.filter((r) => {
     if (r.month < startMonth || r.month > endMonth) return false;
-    if (
-      orgFilterValue.length > 0 &&
-      !orgFilterValue.some((o) => normalizeOrgKey(r.organization) === normalizeOrgKey(o))
-    )
+    if (orgFilterValue.length > 0 && !orgFilterValue.some((o) => orgKey(r.organization) === orgKey(o)))
       return false;
     if (assigneeFilterValue !== "all" && r.asignado !== assigneeFilterValue) return false;
     if (statusFilterValue !== "all" && r.estado !== statusFilterValue) return false;
+    if (!matchesDimensionFilters(r, dimensionFiltersValue)) return false;
     return true;
   });
 }
@@ -578,25 +651,142 @@ function filterJanisRowsForPeriod(
   sourceRows: JanisRow[],
   startMonth: string | null,
   endMonth: string | null,
-  orgFilterValue: string[]
+  orgFilterValue: string[],
+  orgKey: OrgKeyResolver
 ) {
   if (!startMonth || !endMonth) return [] as JanisRow[];
   return sourceRows.filter((r) => {
     if (r.month < startMonth || r.month > endMonth) return false;
-    if (
-      orgFilterValue.length > 0 &&
-      !orgFilterValue.some((o) => normalizeOrgKey(r.clientCode) === normalizeOrgKey(o))
-    )
+    if (orgFilterValue.length > 0 && !orgFilterValue.some((o) => orgKey(r.clientCode) === orgKey(o)))
       return false;
     return true;
   });
 }
 
-function buildPeriodKpis(periodRows: Row[], periodJanisRows: JanisRow[]) {
+// Horas desde "Creada" hasta "Resuelta" (o "Actualizada" si falta) para tickets resueltos según la taxonomía
+function resolutionHours(r: Row, statusCategoryOf: (estado: string) => StatusCategory) {
+  if (statusCategoryOf(r.estado) !== "resolved") return null;
+  const end = r.resolvedAt ?? r.updatedAt;
+  if (!end) return null;
+  const h = (end.getTime() - r.creada.getTime()) / 3600000;
+  return h >= 0 ? h : null;
+}
+
+function resolutionStats(rowsSubset: Row[], statusCategoryOf: (estado: string) => StatusCategory) {
+  const hours = rowsSubset
+    .map((r) => resolutionHours(r, statusCategoryOf))
+    .filter((h): h is number => h != null);
+  return { resolved: hours.length, median: percentile(hours, 50), p90: percentile(hours, 90) };
+}
+
+// Antigüedad del backlog en días completos (min inclusive, max exclusivo)
+const BACKLOG_AGE_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: "0–2d", min: 0, max: 3 },
+  { label: "3–7d", min: 3, max: 8 },
+  { label: "8–30d", min: 8, max: 31 },
+  { label: "30d+", min: 31, max: Infinity },
+];
+
+// El export no trae su fecha: se usa el instante más reciente que aparece en él (creada/actualizada/resuelta)
+function exportDateOf(rowsSubset: Row[]) {
+  let max = -Infinity;
+  rowsSubset.forEach((r) => {
+    [r.creada, r.updatedAt, r.resolvedAt].forEach((d) => {
+      if (d && d.getTime() > max) max = d.getTime();
+    });
+  });
+  return Number.isFinite(max) ? new Date(max) : null;
+}
+
+type BacklogAgeGroup = { name: string; buckets: number[]; total: number; oldestDays: number };
+
+type BacklogAging = {
+  tickets: Array<{ row: Row; ageDays: number; bucket: number }>;
+  byStatus: BacklogAgeGroup[];
+  byOrganization: BacklogAgeGroup[];
+  byAssignee: BacklogAgeGroup[];
+};
+
+function buildBacklogAging(
+  rowsSubset: Row[],
+  statusCategoryOf: (estado: string) => StatusCategory,
+  asOf: Date
+): BacklogAging {
+  const tickets = rowsSubset
+    .filter((r) => isBacklogCategory(statusCategoryOf(r.estado)))
+    .map((r) => {
+      const ageDays = Math.max(0, Math.floor((asOf.getTime() - r.creada.getTime()) / 86400000));
+      return { row: r, ageDays, bucket: BACKLOG_AGE_BUCKETS.findIndex((b) => ageDays >= b.min && ageDays < b.max) };
+    })
+    .sort((a, b) => b.ageDays - a.ageDays || a.row.key.localeCompare(b.row.key));
+
+  const groupBy = (nameOf: (r: Row) => string) => {
+    const map = new Map<string, BacklogAgeGroup>();
+    tickets.forEach((t) => {
+      const name = nameOf(t.row);
+      const cur = map.get(name) || { name, buckets: BACKLOG_AGE_BUCKETS.map(() => 0), total: 0, oldestDays: 0 };
+      cur.buckets[t.bucket]++;
+      cur.total++;
+      cur.oldestDays = Math.max(cur.oldestDays, t.ageDays);
+      map.set(name, cur);
+    });
+    return Array.from(map.values()).sort((a, b) => b.total - a.total || a.name.localeCompare(b.name));
+  };
+
+  return {
+    tickets,
+    byStatus: groupBy((r) => toTitleCaseWords(String(r.estado || "").trim()) || "(Sin estado)"),
+    byOrganization: groupBy((r) => r.organization || "(Sin organización)"),
+    byAssignee: groupBy((r) => r.asignado || "(Sin asignar)"),
+  };
+}
+
+// Holgura SLA Response = horas restantes al responder (negativo = vencido)
+const SLA_SLACK_BUCKETS: Array<{ label: string; min: number; max: number }> = [
+  { label: "< -8h", min: -Infinity, max: -8 },
+  { label: "-8 a -4h", min: -8, max: -4 },
+  { label: "-4 a -1h", min: -4, max: -1 },
+  { label: "-1 a 0h", min: -1, max: 0 },
+  { label: "0 a 0,5h", min: 0, max: 0.5 },
+  { label: "0,5 a 1h", min: 0.5, max: 1 },
+  { label: "1 a 2h", min: 1, max: 2 },
+  { label: "2 a 4h", min: 2, max: 4 },
+  { label: "4 a 8h", min: 4, max: 8 },
+  { label: "≥ 8h", min: 8, max: Infinity },
+];
+
+const SLA_RISK_MARGIN_STORAGE_KEY = "janis-care.sla-risk-margin-hours";
+
+function loadSlaRiskMargin() {
+  return loadStoredJson(SLA_RISK_MARGIN_STORAGE_KEY, 1, (v) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0 ? v : null
+  );
+}
+
+// slackXX = percentil XX de la holgura: holgura mínima que alcanzó el (100-XX)% de los tickets
+function slackStats(hours: number[], riskMarginHours: number) {
+  return {
+    tickets: hours.length,
+    slack50: percentile(hours, 50),
+    slack10: percentile(hours, 10),
+    slack5: percentile(hours, 5),
+    atRisk: hours.filter((h) => h >= 0 && h < riskMarginHours).length,
+    breached: hours.filter((h) => h < 0).length,
+  };
+}
+
+function buildPeriodKpis(
+  periodRows: Row[],
+  periodJanisRows: JanisRow[],
+  statusCategoryOf: (estado: string) => StatusCategory,
+  teamSizeOf: (month: string) => number | null,
+  isNormalSchedule: (r: Row) => boolean
+) {
   const total = periodRows.length;
-  const totalNormal = periodRows.filter((r) => isNormalSchedule(r.creada)).length;
+  const totalNormal = periodRows.filter((r) => isNormalSchedule(r)).length;
   const totalGuard = total - totalNormal;
   const respInc = periodRows.filter((r) => r.slaResponseStatus === "Incumplido").length;
+  const resolInc = periodRows.filter((r) => r.slaResolutionStatus === "Incumplido").length;
 
   const rated = periodRows.filter((r) => r.satisfaction != null);
   const csatAvg =
@@ -604,23 +794,23 @@ function buildPeriodKpis(periodRows: Row[], periodJanisRows: JanisRow[]) {
       ? rated.reduce((sum, r) => sum + (r.satisfaction == null ? 0 : r.satisfaction), 0) / rated.length
       : null;
 
-  const firstSeenByLinkedKey = new Map<string, Date>();
+  const firstSeenByLinkedKey = new Map<string, Row>();
   periodRows.forEach((r) => {
     (r.linkedKeys || []).forEach((k) => {
-      if (!firstSeenByLinkedKey.has(k)) firstSeenByLinkedKey.set(k, r.creada);
+      if (!firstSeenByLinkedKey.has(k)) firstSeenByLinkedKey.set(k, r);
     });
   });
   const uniqueLinkedKeys = Array.from(firstSeenByLinkedKey.keys());
   const linkedNormal = uniqueLinkedKeys.filter((k) => {
-    const d = firstSeenByLinkedKey.get(k);
-    return d ? isNormalSchedule(d) : false;
+    const first = firstSeenByLinkedKey.get(k);
+    return first ? isNormalSchedule(first) : false;
   }).length;
   const linkedGuard = uniqueLinkedKeys.length - linkedNormal;
 
   const tppMonths = Array.from(new Set(periodRows.map((r) => r.month))).sort();
   const tppValues = tppMonths
     .map((m) => {
-      const team = teamSizeForMonth(m);
+      const team = teamSizeOf(m);
       if (!team) return null;
       return periodRows.filter((r) => r.month === m).length / team;
     })
@@ -629,6 +819,7 @@ function buildPeriodKpis(periodRows: Row[], periodJanisRows: JanisRow[]) {
 
   const totalOrders = periodJanisRows.reduce((acc, row) => acc + row.totalOrders, 0);
   const ticketsPer1kOrders = totalOrders > 0 ? (periodRows.length / totalOrders) * 1000 : null;
+  const resolution = resolutionStats(periodRows, statusCategoryOf);
 
   return {
     hasJiraPeriodData: periodRows.length > 0,
@@ -641,16 +832,20 @@ function buildPeriodKpis(periodRows: Row[], periodJanisRows: JanisRow[]) {
     linkedGuard,
     respInc,
     respOkPct: 100 - pct(respInc, total),
+    resolInc,
+    resolOkPct: 100 - pct(resolInc, total),
     csatAvg,
     csatCoverage: pct(rated.length, total),
     tpp,
     totalOrders,
     ticketsPer1kOrders,
     ordersPerTicketRounded: periodRows.length > 0 ? Math.round(totalOrders / periodRows.length) : null,
+    ttrResolved: resolution.resolved,
+    ttrMedian: resolution.median,
+    ttrP90: resolution.p90,
   };
 }
 
-
 function KpiPreviousPeriod({ children }: { children: React.ReactNode }) {
   return <div className="mt-3 border-t border-slate-100 pt-2 text-xs text-slate-500">{children}</div>;
 }
@@ -784,7 +979,28 @@ function runParserTestsOnce() {
     parseCreated("19/ene/26 12:47 PM") instanceof Date,
     "parseCreated should parse Spanish months"
   );
+  console.assert(
+    parseCreated("19/jan/26 12:47")?.getHours() === 12,
+    "parseCreated should parse Portuguese months with 24h clock"
+  );
+  console.assert(
+    parseCreated("19/fev/2026 18:05")?.getMonth() === 1,
+    "parseCreated should parse four-digit years"
+  );
+  console.assert(
+    parseCreated("2026-01-19T12:47:00")?.getDate() === 19,
+    "parseCreated should parse ISO timestamps"
+  );
+  console.assert(parseCreated("19/xyz/26 12:47") === null, "unknown month should be null");
   console.assert(ym(new Date(2026, 0, 19)) === "2026-01", "ym should format YYYY-MM");
+  console.assert(
+    zonedParts(zonedWallTimeToDate(2026, 0, 19, 23, 30, 0, "America/Santiago"), "America/Sao_Paulo").hour === 23,
+    "wall time should convert between zones (Santiago = São Paulo in January)"
+  );
+  console.assert(
+    ym(parseCreated("31/dic/25 23:30", "America/Santiago") as Date, "UTC") === "2026-01",
+    "month should follow the display time zone"
+  );
 
   console.assert(parseSlaHours("") === null, "blank SLA should be null");
   console.assert(parseSlaHours(null) === null, "null SLA should be null");
@@ -793,135 +1009,3076 @@ function runParserTestsOnce() {
   console.assert((parseSlaHours("1:30") || 0) > 0, "positive SLA should be > 0");
   console.assert((parseSlaHours("-1:30") || 0) < 0, "negative SLA should be < 0");
 
+  console.assert(
+    parseJiraIsoDate("2026-01-19T12:47:00.000-0300") instanceof Date,
+    "parseJiraIsoDate should accept Jira REST offsets without colon"
+  );
+  console.assert(
+    headerSignature(["Estado", "creada", "estado"]) === headerSignature(["creada", "estado"]),
+    "header signature should ignore order, case and duplicates"
+  );
+  console.assert(
+    detectColumnMapping(["clave de incidencia", "creada", "actividades vinculadas"]).linked.length === 1,
+    "default mapping should detect linked columns"
+  );
+  console.assert(
+    buildOrgKeyResolver([{ jiraOrganization: "Farmacias Cruz Verde", clientCode: "cruzverde" }])(
+      "Farmacias Cruz Verde"
+    ) === normalizeOrgKey("cruzverde"),
+    "org aliases should resolve Jira names to the Janis client code"
+  );
+  console.assert(
+    parseOrgAliasCsv("jira_organization,client_code\nCruz Verde,cruzverde\n,x").aliases.length === 1,
+    "alias CSV should skip rows with empty values"
+  );
+  console.assert(percentile([1, 2, 3, 4], 50) === 2.5, "median should interpolate");
+  console.assert(percentile([], 90) === null, "percentile of empty list should be null");
+  console.assert(slackStats([-1, 0, 0.5, 3], 1).atRisk === 2, "slack in [0, margin) counts as at risk");
+  console.assert(slackStats([-1, 0, 0.5, 3], 1).breached === 1, "negative slack counts as breached");
+  console.assert(teamSizeForMonth(DEFAULT_ROSTER, "2025-06") === 5, "default roster keeps 5 people until Jun-2025");
+  console.assert(teamSizeForMonth(DEFAULT_ROSTER, "2025-07") === 3, "default roster keeps 3 people from Jul-2025");
+  console.assert(teamSizeForMonth(DEFAULT_ROSTER, "2024-05") === null, "no team before the roster starts");
+  console.assert(
+    teamSizeForMonth([{ id: "a", name: "A", startDate: "2025-04-16", endDate: null, ftePct: 50 }], "2025-04") === 0.25,
+    "team size should prorate FTE by active days"
+  );
+  console.assert(
+    availableAgentDays(
+      { id: "a", name: "Ana", startDate: "2025-01-01", endDate: null, ftePct: 100 },
+      [{ id: "x", agentName: "ana", from: "2025-01-06", to: "2025-01-10", reason: "Vacaciones" }],
+      "2025-01-01",
+      "2025-01-31"
+    ) === 18,
+    "available days should skip weekends and absences"
+  );
+  console.assert(
+    !isNormalScheduleIn(
+      { date: "2025-09-18", weekday: 4, hour: 10 },
+      DEFAULT_BUSINESS_CALENDAR.schedule,
+      new Set(["2025-09-18"])
+    ),
+    "holidays should count as Guardia"
+  );
+  console.assert(
+    parseHolidayFile(
+      "cl.ics",
+      "BEGIN:VCALENDAR\nBEGIN:VEVENT\nDTSTART;VALUE=DATE:20250918\nDTEND;VALUE=DATE:20250920\n" +
+        "SUMMARY:Fiestas Patrias\nEND:VEVENT\nEND:VCALENDAR"
+    ).holidays.length === 2,
+    "multi-day ICS events should expand to each day"
+  );
+  console.assert(defaultStatusCategory("On Hold") === "excluded", "Block/Hold should be excluded by default");
+  console.assert(
+    statusCategory(" Esperando cliente ", {}) === "waiting" &&
+      statusCategory("Validación QA", { "validación qa": "resolved" }) === "resolved",
+    "status taxonomy should fall back to defaults and honor overrides"
+  );
+  console.assert(
+    buildPortfolioMatrix([], [], (v) => v).length === 0,
+    "portfolio matrix should be empty without Janis orders"
+  );
+  console.assert(
+    buildBacklogAging(
+      [
+        { key: "A-1", estado: "Abierto", creada: new Date("2025-12-20T12:00:00Z") },
+        { key: "A-2", estado: "Cerrado", creada: new Date("2026-01-10T12:00:00Z") },
+        { key: "A-3", estado: "Abierto", creada: new Date("2026-01-29T12:00:00Z") },
+      ] as Row[],
+      (estado) => (estado === "Cerrado" ? "resolved" : "open"),
+      new Date("2026-02-01T00:00:00Z")
+    ).tickets.map((t) => `${t.row.key}:${BACKLOG_AGE_BUCKETS[t.bucket].label}`).join() === "A-1:30d+,A-3:0–2d",
+    "backlog aging should skip closed tickets and bucket by whole days, oldest first"
+  );
+  const snapshotOf = (id: string, date: string, estados: Record<string, string>) =>
+    toSnapshot(id, date, `${id}.csv`, Object.entries(estados).map(([key, estado]) => ({ key, estado }) as Row));
+  const snapshotTest = buildSnapshotHistory(
+    [
+      snapshotOf("s2", "2026-02-08", { "A-1": "Abierto", "A-2": "Cerrado", "A-3": "Abierto" }),
+      snapshotOf("s1", "2026-02-01", { "A-1": "Cerrado", "A-2": "Abierto" }),
+    ],
+    (estado) => (estado === "Cerrado" ? "resolved" : "open")
+  );
+  console.assert(
+    snapshotTest.points.map((p) => `${p.date}:${p.backlog}/${p.newTickets}/${p.transitions}`).join() ===
+      "2026-02-01:1/0/0,2026-02-08:2/1/2" &&
+      snapshotTest.reopens.map((r) => r.key).join() === "A-1",
+    "snapshot history should diff consecutive snapshots and flag closed → open as reopen"
+  );
+  const changelogTest = ticketHistory(
+    { key: "A-1", estado: "Abierto", creada: new Date("2026-01-01T00:00:00Z") } as Row,
+    parseChangelogCsv(
+      "key,desde,hacia,fecha\n" +
+        "A-1,Abierto,Cerrado,2026-01-01T10:00:00Z\n" +
+        "A-1,Cerrado,Abierto,2026-01-02T10:00:00Z\n" +
+        "A-1,Abierto,En curso,2026-01-02T12:00:00Z"
+    ).events,
+    (estado) => (estado === "Cerrado" ? "resolved" : "open"),
+    new Date("2026-01-03T00:00:00Z")
+  );
+  console.assert(
+    changelogTest.resolved &&
+      changelogTest.reopens === 1 &&
+      changelogTest.pingPongs === 1 &&
+      changelogTest.hoursByStatus.get("abierto")?.hours === 12 &&
+      changelogTest.hoursByStatus.get("cerrado")?.hours === 24,
+    "changelog should count reopens, ping-pong and time in status"
+  );
+
   const arr: string[] = [];
   const min = arr.length ? arr[0] : undefined;
   console.assert(min === undefined, "safe min when empty");
 }
 
-type Row = {
-  key: string;
-  organization: string;
-  estado: string;
-  asignado: string;
-  linkedKeys: string[];
-  creada: Date;
-  year: number;
-  month: string;
-  slaResponseHours: number | null;
-  slaResponseStatus: "Cumplido" | "Incumplido";
-  satisfaction: number | null;
+type MappingProfile = {
+  name: string;
+  headerSignature: string;
+  mapping: JiraColumnMapping;
+  updatedAt: string;
 };
 
-type JanisRow = {
-  clientCode: string;
-  month: string; // YYYY-MM
-  year: number;
-  totalOrders: number;
-};
+const MAPPABLE_FIELDS: Array<{ field: MappableField; label: string; required?: boolean }> = [
+  { field: "key", label: "Clave de incidencia" },
+  { field: "organization", label: "Organización" },
+  { field: "estado", label: "Estado" },
+  { field: "asignado", label: "Asignado" },
+  { field: "creada", label: "Creada", required: true },
+  { field: "slaResponse", label: "SLA Time to first response" },
+  { field: "slaResolution", label: "SLA Time to resolution" },
+  { field: "satisfaction", label: "Satisfacción (CSAT)" },
+  { field: "resolved", label: "Resuelta (fecha)" },
+  { field: "updated", label: "Actualizada (fecha)" },
+  { field: "priority", label: "Prioridad" },
+  { field: "issueType", label: "Tipo de incidencia" },
+  { field: "requestType", label: "Tipo de solicitud" },
+  { field: "labels", label: "Etiquetas (incluye columnas repetidas)" },
+  { field: "components", label: "Componentes (incluye columnas repetidas)" },
+];
 
-function normalizeOrgKey(value: string) {
-  return String(value || "")
-    .trim()
-    .toLowerCase()
-    .normalize("NFD")
-    .replace(/[\u0300-\u036f]/g, "")
-    .replace(/[^a-z0-9]/g, "");
+// Configuración persistida en localStorage como JSON; `sanitize` devuelve null si el valor guardado no sirve
+function loadStoredJson<T>(key: string, fallback: T, sanitize: (value: unknown) => T | null): T {
+  if (typeof window === "undefined") return fallback;
+  try {
+    const raw = window.localStorage.getItem(key);
+    return raw == null ? fallback : (sanitize(JSON.parse(raw)) ?? fallback);
+  } catch {
+    return fallback;
+  }
 }
 
-function shiftYm(ymValue: string, monthDelta: number) {
-  const [yRaw, mRaw] = String(ymValue || "").split("-");
-  const y = Number(yRaw);
-  const m = Number(mRaw);
-  if (!Number.isFinite(y) || !Number.isFinite(m) || m < 1 || m > 12) return ymValue;
-  const d = new Date(y, m - 1 + monthDelta, 1);
-  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+function storeJson(key: string, value: unknown) {
+  try {
+    window.localStorage.setItem(key, JSON.stringify(value));
+  } catch {
+    // ignore (modo privado / cuota excedida)
+  }
 }
 
-type MonthPeriod = {
-  start: string | null;
-  end: string | null;
-};
+function isJsonObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
 
-type ComparisonPeriods = {
-  selectedPeriod: MonthPeriod;
-  comparisonCurrentPeriod: MonthPeriod;
-  comparisonPreviousPeriod: MonthPeriod;
+const MAPPING_PROFILES_STORAGE_KEY = "janis-care.jira-mapping-profiles";
+
+function loadMappingProfiles() {
+  return loadStoredJson<MappingProfile[]>(MAPPING_PROFILES_STORAGE_KEY, [], (v) => (Array.isArray(v) ? v : null));
+}
+
+type ImportIssue = RowIssue & {
+  source: "Jira" | "Janis";
+  file: string;
 };
 
-function isValidMonthPeriod(period: MonthPeriod) {
-  return Boolean(period.start && period.end && period.start <= period.end);
+function downloadCsv(filename: string, data: Array<Record<string, any>>) {
+  const csv = Papa.unparse(data);
+  // BOM para que Excel respete acentos
+  const blob = new Blob(["\ufeff" + csv], { type: "text/csv;charset=utf-8" });
+  const url = URL.createObjectURL(blob);
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = filename;
+  a.rel = "noopener";
+  document.body.appendChild(a);
+  a.click();
+  a.remove();
+  setTimeout(() => URL.revokeObjectURL(url), 5000);
 }
 
-function buildComparisonPeriods(selectedPeriod: MonthPeriod): ComparisonPeriods {
-  const emptyComparable = { start: null, end: null };
-  if (!isValidMonthPeriod(selectedPeriod) || !selectedPeriod.start || !selectedPeriod.end) {
-    return {
-      selectedPeriod,
-      comparisonCurrentPeriod: emptyComparable,
-      comparisonPreviousPeriod: emptyComparable,
-    };
-  }
+type PendingJiraImport = {
+  fileName: string;
+  headers: string[];
+  sample: Array<Record<string, any>>; // primeras filas (los registros completos quedan en el worker)
+  rowCount: number;
+  mapping: JiraColumnMapping;
+};
 
-  const latestYear = selectedPeriod.end.slice(0, 4);
-  const latestYearStart = `${latestYear}-01`;
-  const comparisonCurrentStart =
-    selectedPeriod.start > latestYearStart ? selectedPeriod.start : latestYearStart;
-  const comparisonCurrentPeriod = {
-    start: comparisonCurrentStart,
-    end: selectedPeriod.end,
+function ColumnMappingWizard({
+  pending,
+  profiles,
+  onMappingChange,
+  onApply,
+  onSaveProfile,
+  onDeleteProfile,
+  onCancel,
+}: {
+  pending: PendingJiraImport;
+  profiles: MappingProfile[];
+  onMappingChange: (mapping: JiraColumnMapping) => void;
+  onApply: () => void;
+  onSaveProfile: (name: string) => void;
+  onDeleteProfile: (name: string) => void;
+  onCancel: () => void;
+}) {
+  const [profileName, setProfileName] = useState("");
+  const { headers, sample, mapping } = pending;
+
+  const samples = (header: string | null) => {
+    if (!header) return "";
+    const values: string[] = [];
+    for (const r of sample) {
+      const v = String(coalesce(r[header], "")).trim();
+      if (v) values.push(v);
+      if (values.length >= 3) break;
+    }
+    return values.join(" · ");
   };
 
-  return {
-    selectedPeriod,
-    comparisonCurrentPeriod,
-    comparisonPreviousPeriod: {
-      start: shiftYm(comparisonCurrentPeriod.start, -12),
-      end: shiftYm(comparisonCurrentPeriod.end, -12),
-    },
+  const toggleLinked = (header: string) => {
+    const linked = mapping.linked.includes(header)
+      ? mapping.linked.filter((h) => h !== header)
+      : [...mapping.linked, header];
+    onMappingChange({ ...mapping, linked });
   };
-}
 
-function periodYear(period: MonthPeriod) {
-  return period.start ? period.start.slice(0, 4) : null;
-}
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader>
+        <CardTitle className={UI.title}>Mapeo de columnas · {pending.fileName}</CardTitle>
+        <p className={UI.subtle}>
+          {formatInt(pending.rowCount)} filas · {formatInt(headers.length)} columnas detectadas. Asocia cada campo del
+          dashboard a una columna del CSV.
+        </p>
+      </CardHeader>
+      <CardContent>
+        <div className="overflow-x-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="p-2 border border-slate-200 bg-slate-50">Campo</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Columna</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Vista previa</th>
+              </tr>
+            </thead>
+            <tbody>
+              {MAPPABLE_FIELDS.map(({ field, label, required }) => (
+                <tr key={field}>
+                  <td className="p-2 border border-slate-200 font-semibold text-slate-700">
+                    {label}
+                    {required ? " *" : ""}
+                  </td>
+                  <td className="p-2 border border-slate-200">
+                    <select
+                      className="w-full"
+                      value={mapping[field] ?? ""}
+                      onChange={(e) => onMappingChange({ ...mapping, [field]: e.target.value || null })}
+                    >
+                      <option value="">(Sin asignar)</option>
+                      {headers.map((h) => (
+                        <option key={h} value={h}>
+                          {h}
+                        </option>
+                      ))}
+                    </select>
+                  </td>
+                  <td className={"p-2 border border-slate-200 " + UI.subtle}>{samples(mapping[field])}</td>
+                </tr>
+              ))}
+              <tr>
+                <td className="p-2 border border-slate-200 font-semibold text-slate-700 align-top">
+                  Columnas vinculadas (HDI)
+                </td>
+                <td className="p-2 border border-slate-200" colSpan={2}>
+                  <div className="grid grid-cols-1 gap-1 md:grid-cols-2">
+                    {headers.map((h) => (
+                      <label key={h} className="flex items-center gap-2 text-xs text-slate-700">
+                        <input
+                          type="checkbox"
+                          checked={mapping.linked.includes(h)}
+                          onChange={() => toggleLinked(h)}
+                          className="h-4 w-4 rounded border-slate-300"
+                        />
+                        <span className="truncate">{h}</span>
+                      </label>
+                    ))}
+                  </div>
+                </td>
+              </tr>
+            </tbody>
+          </table>
+        </div>
 
-function interannualMonthRangeLabel(period: MonthPeriod) {
-  if (!period.start || !period.end) return null;
-  const startLabel = monthShortName(period.start);
-  const endLabel = monthShortName(period.end);
-  return startLabel === endLabel ? startLabel : `${startLabel}-${endLabel}`;
+        <div className="mt-4 flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            type="text"
+            className="md:w-64"
+            placeholder="Nombre del perfil"
+            value={profileName}
+            onChange={(e) => setProfileName(e.target.value)}
+          />
+          <Button
+            className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+            disabled={!profileName.trim()}
+            onClick={() => onSaveProfile(profileName.trim())}
+          >
+            Guardar perfil
+          </Button>
+          <div className="flex-1" />
+          <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onCancel}>
+            Cancelar
+          </Button>
+          <Button
+            className="text-white"
+            style={{ backgroundColor: UI.primary }}
+            disabled={!mapping.creada}
+            onClick={onApply}
+          >
+            Aplicar mapeo
+          </Button>
+        </div>
+
+        {profiles.length ? (
+          <div className="mt-4">
+            <div className={UI.subtle}>Perfiles guardados (se aplican automáticamente si los headers coinciden)</div>
+            <div className="mt-2 flex flex-wrap gap-2">
+              {profiles.map((p) => (
+                <span
+                  key={p.name}
+                  className="inline-flex items-center gap-2 rounded-full border border-slate-200 bg-slate-50 px-3 py-1 text-xs text-slate-700"
+                >
+                  <button
+                    type="button"
+                    className="font-semibold hover:underline"
+                    title="Usar este mapeo"
+                    onClick={() => onMappingChange(mappingForHeaders(p.mapping, headers))}
+                  >
+                    {p.name}
+                  </button>
+                  <button
+                    type="button"
+                    className="text-slate-400 hover:text-red-500"
+                    title="Eliminar perfil"
+                    onClick={() => onDeleteProfile(p.name)}
+                  >
+                    ×
+                  </button>
+                </span>
+              ))}
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
 }
 
-type MetricPerformanceDirection = "higher-is-better" | "lower-is-better" | "neutral";
+function ImportReportPanel({
+  issues,
+  expanded,
+  onToggle,
+}: {
+  issues: ImportIssue[];
+  expanded: boolean;
+  onToggle: () => void;
+}) {
+  const maxVisible = 200;
+  const skipped = issues.filter((x) => x.action === "omitida").length;
+  const coerced = issues.length - skipped;
+
+  const byReason = useMemo(() => {
+    const m = new Map<string, number>();
+    issues.forEach((x) => m.set(`${x.source} · ${x.reason}`, (m.get(`${x.source} · ${x.reason}`) || 0) + 1));
+    return Array.from(m.entries()).sort((a, b) => b[1] - a[1]);
+  }, [issues]);
+
+  const exportReport = () => {
+    downloadCsv(
+      "reporte_importacion.csv",
+      issues.map((x) => ({
+        origen: x.source,
+        archivo: x.file,
+        linea: x.line,
+        columna: x.column,
+        valor: x.value,
+        motivo: x.reason,
+        accion: x.action,
+      }))
+    );
+  };
 
-function metricPerformanceClass(
-  current: number | null,
-  previous: number | null,
-  direction: MetricPerformanceDirection
-) {
-  if (direction === "neutral" || current == null || previous == null || current === previous) return "metric-neutral";
-  const isBetter = direction === "higher-is-better" ? current > previous : current < previous;
-  return isBetter ? "metric-better" : "metric-worse";
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Reporte de importación</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              {formatInt(skipped)} filas omitidas · {formatInt(coerced)} valores ajustados
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onToggle}>
+              {expanded ? "Ocultar detalle" : "Ver detalle"}
+            </Button>
+            <Button className="text-white" style={{ backgroundColor: UI.primary }} onClick={exportReport}>
+              Exportar CSV
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      {expanded ? (
+        <CardContent>
+          <div className="mb-3 flex flex-wrap gap-2">
+            {byReason.map(([reason, n]) => (
+              <span key={reason} className="rounded-full bg-slate-100 px-2.5 py-1 text-xs text-slate-700">
+                {reason}: <span className="font-semibold">{formatInt(n)}</span>
+              </span>
+            ))}
+          </div>
+          <div className="max-h-80 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2 border border-slate-200 bg-slate-50">Origen</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Archivo</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Línea</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Columna</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Valor</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Motivo</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Acción</th>
+                </tr>
+              </thead>
+              <tbody>
+                {issues.slice(0, maxVisible).map((x, i) => (
+                  <tr key={`${x.source}-${x.file}-${x.line}-${x.column}-${i}`}>
+                    <td className="p-2 border border-slate-200">{x.source}</td>
+                    <td className="p-2 border border-slate-200">{x.file}</td>
+                    <td className="p-2 border border-slate-200 text-right">{x.line}</td>
+                    <td className="p-2 border border-slate-200">{x.column}</td>
+                    <td className="p-2 border border-slate-200 font-mono text-xs">{x.value || "—"}</td>
+                    <td className="p-2 border border-slate-200">{x.reason}</td>
+                    <td
+                      className="p-2 border border-slate-200 font-semibold"
+                      style={{ color: x.action === "omitida" ? UI.danger : UI.warning }}
+                    >
+                      {x.action}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {issues.length > maxVisible ? (
+            <p className={"mt-2 " + UI.subtle}>
+              Mostrando {formatInt(maxVisible)} de {formatInt(issues.length)}. Exporta el CSV para ver el detalle completo.
+            </p>
+          ) : null}
+        </CardContent>
+      ) : null}
+    </Card>
+  );
 }
 
-function isNormalSchedule(d: Date) {
-  const day = d.getDay(); // 0=dom, 6=sáb
-  const hour = d.getHours();
-  const isWeekday = day >= 1 && day <= 5;
-  return isWeekday && hour >= 6 && hour < 23;
+function formatImportedAt(iso: string) {
+  const d = new Date(iso);
+  if (isNaN(d.getTime())) return iso;
+  return new Intl.DateTimeFormat("es-CL", { dateStyle: "short", timeStyle: "short" }).format(d);
 }
 
-function buildTicketsPer1kByMonth(monthRows: Array<{ month: string; tickets: number; orders: number }>) {
-  return monthRows
-    .map((row) => {
-      const orders = Number(row.orders) || 0;
-      const tickets = Number(row.tickets) || 0;
-      if (orders <= 0) return null;
-      return {
-        month: row.month,
-        ticketsPer1k: (tickets / orders) * 1000,
-      };
-    })
+function DatasetsPanel({
+  datasets,
+  activeIds,
+  onActivate,
+  onDelete,
+  onSnapshotDateChange,
+  onPurge,
+  onClose,
+}: {
+  datasets: StoredDatasetMeta[];
+  activeIds: Record<DatasetKind, string | null>;
+  onActivate: (meta: StoredDatasetMeta) => void;
+  onDelete: (meta: StoredDatasetMeta) => void;
+  onSnapshotDateChange: (meta: StoredDatasetMeta, date: string | null) => void;
+  onPurge: () => void;
+  onClose: () => void;
+}) {
+  const groups: { kind: DatasetKind; label: string }[] = [
+    { kind: "jira", label: "Jira" },
+    { kind: "janis", label: "Janis Data" },
+  ];
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Datasets guardados</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Las importaciones se guardan en este navegador y se restauran al recargar la página. Etiqueta los
+              exports Jira con su fecha de snapshot para comparar el estado de los tickets entre fechas.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="bg-white border border-slate-200 hover:bg-slate-50"
+              style={{ color: UI.danger }}
+              disabled={!datasets.length}
+              onClick={onPurge}
+            >
+              Borrar almacenamiento
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          {groups.map(({ kind, label }) => {
+            const items = datasets.filter((d) => d.kind === kind);
+            return (
+              <div key={kind}>
+                <div className="mb-2 text-sm font-semibold text-slate-700">{label}</div>
+                {items.length ? (
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="p-2 border border-slate-200 bg-slate-50">Archivo</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50">Importado</th>
+                        {kind === "jira" ? (
+                          <th className="p-2 border border-slate-200 bg-slate-50">Snapshot</th>
+                        ) : null}
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Filas</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {items.map((d) => {
+                        const active = activeIds[kind] === d.id;
+                        return (
+                          <tr key={d.id} className={active ? "bg-blue-50" : undefined}>
+                            <td className="p-2 border border-slate-200 break-all">
+                              {d.fileName}
+                              {active ? (
+                                <span className="ml-2 text-xs font-semibold" style={{ color: UI.primary }}>
+                                  activo
+                                </span>
+                              ) : null}
+                            </td>
+                            <td className="p-2 border border-slate-200 whitespace-nowrap">
+                              {formatImportedAt(d.importedAt)}
+                            </td>
+                            {kind === "jira" ? (
+                              <td className="p-2 border border-slate-200">
+                                <Input
+                                  type="date"
+                                  className="h-8 w-36"
+                                  title="Fecha del export (vacío = no es parte del historial)"
+                                  value={d.snapshotDate ?? ""}
+                                  onChange={(e) => onSnapshotDateChange(d, e.target.value || null)}
+                                />
+                              </td>
+                            ) : null}
+                            <td className="p-2 border border-slate-200 text-right">{formatInt(d.rowCount)}</td>
+                            <td className="p-2 border border-slate-200 whitespace-nowrap text-right">
+                              <button
+                                type="button"
+                                className="text-xs font-semibold disabled:opacity-40"
+                                style={{ color: UI.primary }}
+                                disabled={active}
+                                onClick={() => onActivate(d)}
+                              >
+                                Usar
+                              </button>
+                              <button
+                                type="button"
+                                className="ml-3 text-xs"
+                                style={{ color: UI.danger }}
+                                onClick={() => onDelete(d)}
+                              >
+                                Eliminar
+                              </button>
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                ) : (
+                  <p className={UI.subtle}>Sin importaciones guardadas.</p>
+                )}
+              </div>
+            );
+          })}
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+const STATUS_TAXONOMY_STORAGE_KEY = "janis-care.status-taxonomy";
+
+function loadStatusTaxonomy() {
+  return loadStoredJson<StatusTaxonomy>(STATUS_TAXONOMY_STORAGE_KEY, {}, (v) =>
+    isJsonObject(v) ? (v as StatusTaxonomy) : null
+  );
+}
+
+function StatusTaxonomyPanel({
+  rows,
+  taxonomy,
+  onChange,
+  onClose,
+}: {
+  rows: Row[];
+  taxonomy: StatusTaxonomy;
+  onChange: (taxonomy: StatusTaxonomy) => void;
+  onClose: () => void;
+}) {
+  const statuses = useMemo(() => {
+    const m = new Map<string, { estado: string; tickets: number }>();
+    rows.forEach((r) => {
+      const key = statusKey(r.estado);
+      const cur = m.get(key) || { estado: r.estado || "(Sin estado)", tickets: 0 };
+      cur.tickets += 1;
+      m.set(key, cur);
+    });
+    // Estados configurados que no aparecen en los datos cargados también se muestran
+    Object.keys(taxonomy).forEach((key) => {
+      if (!m.has(key)) m.set(key, { estado: key, tickets: 0 });
+    });
+    return Array.from(m.entries())
+      .map(([key, v]) => ({ key, ...v }))
+      .sort((a, b) => b.tickets - a.tickets || a.estado.localeCompare(b.estado));
+  }, [rows, taxonomy]);
+
+  const setCategory = (key: string, category: StatusCategory) => {
+    const next = { ...taxonomy };
+    // Si coincide con la clasificación por defecto no hace falta guardarla
+    if (category === defaultStatusCategory(key)) delete next[key];
+    else next[key] = category;
+    onChange(next);
+  };
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Taxonomía de estados</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Backlog = abiertos + esperando cliente. Los cancelados no cuentan en el reporte ejecutivo y los
+              excluidos no cuentan en ningún KPI.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              disabled={!Object.keys(taxonomy).length}
+              onClick={() => onChange({})}
+            >
+              Restablecer
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {statuses.length ? (
+          <div className="max-h-96 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2 border border-slate-200 bg-slate-50">Estado</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Categoría</th>
+                </tr>
+              </thead>
+              <tbody>
+                {statuses.map((s) => {
+                  const configured = taxonomy[s.key] != null;
+                  return (
+                    <tr key={s.key}>
+                      <td className="p-2 border border-slate-200">{s.estado}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(s.tickets)}</td>
+                      <td className="p-2 border border-slate-200">
+                        <select
+                          value={statusCategory(s.key, taxonomy)}
+                          onChange={(e) => setCategory(s.key, e.target.value as StatusCategory)}
+                        >
+                          {STATUS_CATEGORIES.map((c) => (
+                            <option key={c.category} value={c.category}>
+                              {c.label}
+                            </option>
+                          ))}
+                        </select>
+                        {configured ? null : <span className={"ml-2 " + UI.subtle}>(por defecto)</span>}
+                      </td>
+                    </tr>
+                  );
+                })}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={UI.subtle}>Carga un CSV de Jira para clasificar sus estados.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+function OrgAliasPanel({
+  aliases,
+  report,
+  jiraOrgs,
+  clientCodes,
+  hasBothSources,
+  onChange,
+  onImport,
+  onClose,
+}: {
+  aliases: OrgAlias[];
+  report: OrgMatchReport;
+  jiraOrgs: string[];
+  clientCodes: string[];
+  hasBothSources: boolean;
+  onChange: (aliases: OrgAlias[]) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [jiraOrganization, setJiraOrganization] = useState("");
+  const [clientCode, setClientCode] = useState("");
+
+  const addAlias = () => {
+    onChange([...aliases, { jiraOrganization: jiraOrganization.trim(), clientCode: clientCode.trim() }]);
+    setJiraOrganization("");
+    setClientCode("");
+  };
+
+  const exportAliases = () => {
+    downloadCsv(
+      "alias_organizaciones.csv",
+      aliases.map((a) => ({ jira_organization: a.jiraOrganization, client_code: a.clientCode }))
+    );
+  };
+
+  const exportUnmatched = () => {
+    downloadCsv("organizaciones_sin_match.csv", [
+      ...report.unmatchedJira.map((x) => ({ origen: "Jira", organizacion: x.organization, tickets: x.tickets, ordenes: "" })),
+      ...report.unmatchedJanis.map((x) => ({
+        origen: "Janis",
+        organizacion: x.clientCode,
+        tickets: "",
+        ordenes: x.totalOrders,
+      })),
+    ]);
+  };
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Alias de organizaciones</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Asocia uno o más nombres de organización de Jira a un client code de Janis (tickets cada 1.000 órdenes).
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files && e.target.files[0];
+                if (f) onImport(f);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => importInputRef.current?.click()}
+            >
+              Importar CSV
+            </Button>
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              disabled={!aliases.length}
+              onClick={exportAliases}
+            >
+              Exportar CSV
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            type="text"
+            className="md:w-72"
+            list="org-alias-jira-options"
+            placeholder="Organización Jira"
+            value={jiraOrganization}
+            onChange={(e) => setJiraOrganization(e.target.value)}
+          />
+          <Input
+            type="text"
+            className="md:w-56"
+            list="org-alias-janis-options"
+            placeholder="Client code Janis"
+            value={clientCode}
+            onChange={(e) => setClientCode(e.target.value)}
+          />
+          <Button
+            className="text-white"
+            style={{ backgroundColor: UI.primary }}
+            disabled={!jiraOrganization.trim() || !clientCode.trim()}
+            onClick={addAlias}
+          >
+            Agregar alias
+          </Button>
+          <datalist id="org-alias-jira-options">
+            {jiraOrgs.map((o) => (
+              <option key={o} value={o} />
+            ))}
+          </datalist>
+          <datalist id="org-alias-janis-options">
+            {clientCodes.map((c) => (
+              <option key={c} value={c} />
+            ))}
+          </datalist>
+        </div>
+
+        {aliases.length ? (
+          <div className="mt-3 max-h-64 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2 border border-slate-200 bg-slate-50">Organización Jira</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Client code Janis</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {aliases.map((a) => (
+                  <tr key={a.jiraOrganization}>
+                    <td className="p-2 border border-slate-200">{a.jiraOrganization}</td>
+                    <td className="p-2 border border-slate-200 font-mono text-xs">{a.clientCode}</td>
+                    <td className="p-2 border border-slate-200 text-right">
+                      <button
+                        type="button"
+                        className="text-xs"
+                        style={{ color: UI.danger }}
+                        onClick={() => onChange(aliases.filter((x) => x !== a))}
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={"mt-3 " + UI.subtle}>Sin alias: las organizaciones se cruzan solo por nombre normalizado.</p>
+        )}
+
+        <div className="mt-5 flex items-center justify-between gap-2">
+          <div className="text-sm font-semibold text-slate-700">Organizaciones sin match</div>
+          <Button
+            className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+            disabled={!hasBothSources || (!report.unmatchedJira.length && !report.unmatchedJanis.length)}
+            onClick={exportUnmatched}
+          >
+            Exportar reporte
+          </Button>
+        </div>
+        {hasBothSources ? (
+          <div className="mt-2 grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div>
+              <div className={UI.subtle}>Jira sin client code ({formatInt(report.unmatchedJira.length)})</div>
+              <div className="mt-1 max-h-64 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                  <tbody>
+                    {report.unmatchedJira.map((x) => (
+                      <tr key={x.organization}>
+                        <td className="p-2 border border-slate-200">
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            title="Usar en un nuevo alias"
+                            onClick={() => setJiraOrganization(x.organization)}
+                          >
+                            {x.organization}
+                          </button>
+                        </td>
+                        <td className="p-2 border border-slate-200 text-right">{formatInt(x.tickets)} tickets</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+            <div>
+              <div className={UI.subtle}>Janis sin organización Jira ({formatInt(report.unmatchedJanis.length)})</div>
+              <div className="mt-1 max-h-64 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                  <tbody>
+                    {report.unmatchedJanis.map((x) => (
+                      <tr key={x.clientCode}>
+                        <td className="p-2 border border-slate-200 font-mono text-xs">
+                          <button
+                            type="button"
+                            className="text-left hover:underline"
+                            title="Usar en un nuevo alias"
+                            onClick={() => setClientCode(x.clientCode)}
+                          >
+                            {x.clientCode}
+                          </button>
+                        </td>
+                        <td className="p-2 border border-slate-200 text-right">{formatInt(x.totalOrders)} órdenes</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          </div>
+        ) : (
+          <p className={"mt-2 " + UI.subtle}>Carga Jira y Janis Data para ver las organizaciones sin match.</p>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
+
+const ROSTER_STORAGE_KEY = "janis-care.staffing-roster";
+
+function loadRoster() {
+  return loadStoredJson<StaffAgent[]>(ROSTER_STORAGE_KEY, DEFAULT_ROSTER, (v) => (Array.isArray(v) ? v : null));
+}
+
+const ABSENCES_STORAGE_KEY = "janis-care.staffing-absences";
+
+function loadAbsences() {
+  return loadStoredJson<StaffAbsence[]>(ABSENCES_STORAGE_KEY, [], (v) => (Array.isArray(v) ? v : null));
+}
+
+function StaffingPanel({
+  roster,
+  absences,
+  months,
+  onChange,
+  onAbsencesChange,
+  isWorkingDate,
+  onImport,
+  onClose,
+}: {
+  roster: StaffAgent[];
+  absences: StaffAbsence[];
+  months: string[];
+  onChange: (roster: StaffAgent[]) => void;
+  onAbsencesChange: (absences: StaffAbsence[]) => void;
+  isWorkingDate: (date: string, weekday: number) => boolean;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+  const [name, setName] = useState("");
+  const [startDate, setStartDate] = useState("");
+  const [endDate, setEndDate] = useState("");
+  const [ftePct, setFtePct] = useState("100");
+  const [absenceAgent, setAbsenceAgent] = useState("");
+  const [absenceFrom, setAbsenceFrom] = useState("");
+  const [absenceTo, setAbsenceTo] = useState("");
+  const [absenceReason, setAbsenceReason] = useState(ABSENCE_REASONS[0]);
+
+  const canAddAbsence =
+    Boolean(absenceAgent) && isIsoDate(absenceFrom) && isIsoDate(absenceTo) && absenceTo >= absenceFrom;
+
+  const addAbsence = () => {
+    onAbsencesChange([
+      ...absences,
+      { id: newAgentId(), agentName: absenceAgent, from: absenceFrom, to: absenceTo, reason: absenceReason },
+    ]);
+    setAbsenceFrom("");
+    setAbsenceTo("");
+  };
+
+  const fteValue = Number(ftePct);
+  const canAdd =
+    Boolean(name.trim()) &&
+    isIsoDate(startDate) &&
+    (!endDate || (isIsoDate(endDate) && endDate >= startDate)) &&
+    Number.isFinite(fteValue) &&
+    fteValue > 0 &&
+    fteValue <= 100;
+
+  const addAgent = () => {
+    onChange([...roster, { id: newAgentId(), name: name.trim(), startDate, endDate: endDate || null, ftePct: fteValue }]);
+    setName("");
+    setStartDate("");
+    setEndDate("");
+    setFtePct("100");
+  };
+
+  const updateAgent = (id: string, patch: Partial<StaffAgent>) => {
+    onChange(roster.map((a) => (a.id === id ? { ...a, ...patch } : a)));
+  };
+
+  const exportRoster = () => {
+    downloadCsv(
+      "dotacion.csv",
+      roster.map((a) => ({ nombre: a.name, inicio: a.startDate, fin: a.endDate || "", fte: a.ftePct }))
+    );
+  };
+
+  // Vista previa: últimos 12 meses con tickets
+  const previewMonths = months.slice(-12);
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Dotación del equipo</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Agentes con fecha de inicio, fin (vacío = vigente) y % FTE. Define las personas por mes de Tickets / Persona.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files && e.target.files[0];
+                if (f) onImport(f);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => importInputRef.current?.click()}
+            >
+              Importar CSV
+            </Button>
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              disabled={!roster.length}
+              onClick={exportRoster}
+            >
+              Exportar CSV
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="flex flex-col gap-2 md:flex-row md:items-center">
+          <Input
+            type="text"
+            className="md:w-56"
+            placeholder="Nombre"
+            value={name}
+            onChange={(e) => setName(e.target.value)}
+          />
+          <Input
+            type="date"
+            className="md:w-40"
+            title="Inicio"
+            value={startDate}
+            onChange={(e) => setStartDate(e.target.value)}
+          />
+          <Input
+            type="date"
+            className="md:w-40"
+            title="Fin (opcional)"
+            value={endDate}
+            min={startDate || undefined}
+            onChange={(e) => setEndDate(e.target.value)}
+          />
+          <Input
+            type="number"
+            className="md:w-24"
+            title="% FTE"
+            min={1}
+            max={100}
+            value={ftePct}
+            onChange={(e) => setFtePct(e.target.value)}
+          />
+          <Button className="text-white" style={{ backgroundColor: UI.primary }} disabled={!canAdd} onClick={addAgent}>
+            Agregar agente
+          </Button>
+        </div>
+
+        {roster.length ? (
+          <div className="mt-3 max-h-64 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2 border border-slate-200 bg-slate-50">Agente</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Inicio</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Fin</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50 text-right">% FTE</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {roster.map((a) => (
+                  <tr key={a.id}>
+                    <td className="p-2 border border-slate-200">{a.name}</td>
+                    <td className="p-2 border border-slate-200">
+                      <input
+                        type="date"
+                        value={a.startDate}
+                        max={a.endDate || undefined}
+                        onChange={(e) => isIsoDate(e.target.value) && updateAgent(a.id, { startDate: e.target.value })}
+                      />
+                    </td>
+                    <td className="p-2 border border-slate-200">
+                      <input
+                        type="date"
+                        value={a.endDate || ""}
+                        min={a.startDate}
+                        onChange={(e) => updateAgent(a.id, { endDate: isIsoDate(e.target.value) ? e.target.value : null })}
+                      />
+                    </td>
+                    <td className="p-2 border border-slate-200 text-right">
+                      <input
+                        type="number"
+                        className="w-16 text-right"
+                        min={1}
+                        max={100}
+                        value={a.ftePct}
+                        onChange={(e) => {
+                          const v = Number(e.target.value);
+                          if (Number.isFinite(v) && v > 0 && v <= 100) updateAgent(a.id, { ftePct: v });
+                        }}
+                      />
+                    </td>
+                    <td className="p-2 border border-slate-200 text-right">
+                      <button
+                        type="button"
+                        className="text-xs"
+                        style={{ color: UI.danger }}
+                        onClick={() => onChange(roster.filter((x) => x.id !== a.id))}
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={"mt-3 " + UI.subtle}>Sin agentes: Tickets / Persona queda sin dato.</p>
+        )}
+
+        <div className="mt-5 text-sm font-semibold text-slate-700">Ausencias</div>
+        <div className="mt-2 flex flex-col gap-2 md:flex-row md:items-center">
+          <select className="md:w-56" value={absenceAgent} onChange={(e) => setAbsenceAgent(e.target.value)}>
+            <option value="">Agente…</option>
+            {Array.from(new Set(roster.map((a) => a.name)))
+              .sort()
+              .map((n) => (
+                <option key={n} value={n}>
+                  {n}
+                </option>
+              ))}
+          </select>
+          <Input
+            type="date"
+            className="md:w-40"
+            title="Desde"
+            value={absenceFrom}
+            onChange={(e) => setAbsenceFrom(e.target.value)}
+          />
+          <Input
+            type="date"
+            className="md:w-40"
+            title="Hasta (inclusive)"
+            value={absenceTo}
+            min={absenceFrom || undefined}
+            onChange={(e) => setAbsenceTo(e.target.value)}
+          />
+          <select className="md:w-40" value={absenceReason} onChange={(e) => setAbsenceReason(e.target.value)}>
+            {ABSENCE_REASONS.map((r) => (
+              <option key={r} value={r}>
+                {r}
+              </option>
+            ))}
+          </select>
+          <Button
+            className="text-white"
+            style={{ backgroundColor: UI.primary }}
+            disabled={!canAddAbsence}
+            onClick={addAbsence}
+          >
+            Agregar ausencia
+          </Button>
+        </div>
+
+        {absences.length ? (
+          <div className="mt-3 max-h-48 overflow-auto">
+            <table className="w-full border-collapse text-sm">
+              <thead>
+                <tr className="text-left">
+                  <th className="p-2 border border-slate-200 bg-slate-50">Agente</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Desde</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Hasta</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50">Motivo</th>
+                  <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                </tr>
+              </thead>
+              <tbody>
+                {absences.map((a) => (
+                  <tr key={a.id}>
+                    <td className="p-2 border border-slate-200">{a.agentName}</td>
+                    <td className="p-2 border border-slate-200">{a.from}</td>
+                    <td className="p-2 border border-slate-200">{a.to}</td>
+                    <td className="p-2 border border-slate-200">{a.reason}</td>
+                    <td className="p-2 border border-slate-200 text-right">
+                      <button
+                        type="button"
+                        className="text-xs"
+                        style={{ color: UI.danger }}
+                        onClick={() => onAbsencesChange(absences.filter((x) => x.id !== a.id))}
+                      >
+                        Eliminar
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        ) : (
+          <p className={"mt-2 " + UI.subtle}>Sin ausencias registradas.</p>
+        )}
+
+        {previewMonths.length ? (
+          <div className="mt-4">
+            <div className={UI.subtle}>
+              Personas equivalentes y días-agente hábiles disponibles por mes (últimos meses con tickets)
+            </div>
+            <div className="mt-1 flex flex-wrap gap-2 text-xs">
+              {previewMonths.map((m) => {
+                const size = teamSizeForMonth(roster, m);
+                return (
+                  <span key={m} className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-700">
+                    {monthLabel(m)}: {size == null ? "—" : size.toLocaleString("es-CL")} ·{" "}
+                    {formatInt(Math.round(availableDaysForMonth(roster, absences, m, isWorkingDate)))} días
+                  </span>
+                );
+              })}
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+const BUSINESS_CALENDAR_STORAGE_KEY = "janis-care.business-calendar";
+
+function loadBusinessCalendar() {
+  return loadStoredJson<BusinessCalendar>(BUSINESS_CALENDAR_STORAGE_KEY, DEFAULT_BUSINESS_CALENDAR, (v) =>
+    isJsonObject(v) && Array.isArray(v.schedule) && v.schedule.length === 7
+      ? { schedule: v.schedule, calendars: Array.isArray(v.calendars) ? v.calendars : [] }
+      : null
+  );
+}
+
+function BusinessCalendarPanel({
+  calendar,
+  onChange,
+  onImport,
+  onClose,
+}: {
+  calendar: BusinessCalendar;
+  onChange: (calendar: BusinessCalendar) => void;
+  onImport: (file: File) => void;
+  onClose: () => void;
+}) {
+  const importInputRef = useRef<HTMLInputElement | null>(null);
+
+  const updateDay = (weekday: number, patch: Partial<DaySchedule>) => {
+    onChange({
+      ...calendar,
+      schedule: calendar.schedule.map((d, i) => (i === weekday ? { ...d, ...patch } : d)),
+    });
+  };
+
+  const updateCalendar = (id: string, patch: { name?: string; enabled?: boolean }) => {
+    onChange({ ...calendar, calendars: calendar.calendars.map((c) => (c.id === id ? { ...c, ...patch } : c)) });
+  };
+
+  const hourOptions = Array.from({ length: 25 }, (_, h) => h);
+  // Lunes primero
+  const weekdayOrder = [1, 2, 3, 4, 5, 6, 0];
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Horario hábil y feriados</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Define el horario Normal por día (hora de creación en la zona de vista). Fuera de él, o en feriados de
+              calendarios activos, el ticket cuenta como Guardia.
+            </p>
+          </div>
+          <div className="flex gap-2">
+            <input
+              ref={importInputRef}
+              type="file"
+              accept=".ics,text/calendar,.csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files && e.target.files[0];
+                if (f) onImport(f);
+                e.target.value = "";
+              }}
+            />
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => importInputRef.current?.click()}
+            >
+              Importar feriados (ICS/CSV)
+            </Button>
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => onChange({ ...calendar, schedule: DEFAULT_BUSINESS_CALENDAR.schedule })}
+            >
+              Restablecer horario
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-1 gap-4 md:grid-cols-2">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="p-2 border border-slate-200 bg-slate-50">Día</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Hábil</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Desde</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Hasta</th>
+              </tr>
+            </thead>
+            <tbody>
+              {weekdayOrder.map((weekday) => {
+                const day = calendar.schedule[weekday];
+                return (
+                  <tr key={weekday}>
+                    <td className="p-2 border border-slate-200">{WEEKDAY_LABELS[weekday]}</td>
+                    <td className="p-2 border border-slate-200">
+                      <input
+                        type="checkbox"
+                        checked={day.enabled}
+                        onChange={(e) => updateDay(weekday, { enabled: e.target.checked })}
+                      />
+                    </td>
+                    <td className="p-2 border border-slate-200">
+                      <select
+                        value={day.startHour}
+                        disabled={!day.enabled}
+                        onChange={(e) => updateDay(weekday, { startHour: Number(e.target.value) })}
+                      >
+                        {hourOptions.slice(0, 24).map((h) => (
+                          <option key={h} value={h} disabled={h >= day.endHour}>
+                            {String(h).padStart(2, "0")}:00
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                    <td className="p-2 border border-slate-200">
+                      <select
+                        value={day.endHour}
+                        disabled={!day.enabled}
+                        onChange={(e) => updateDay(weekday, { endHour: Number(e.target.value) })}
+                      >
+                        {hourOptions.slice(1).map((h) => (
+                          <option key={h} value={h} disabled={h <= day.startHour}>
+                            {String(h).padStart(2, "0")}:00
+                          </option>
+                        ))}
+                      </select>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+
+          <div>
+            <div className={UI.subtle}>Calendarios de feriados (p.ej. Chile, Brasil, México, Colombia)</div>
+            {calendar.calendars.length ? (
+              <div className="mt-1 max-h-72 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-left">
+                      <th className="p-2 border border-slate-200 bg-slate-50">Activo</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50">Calendario</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Feriados</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50">Rango</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50"></th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {calendar.calendars.map((c) => (
+                      <tr key={c.id}>
+                        <td className="p-2 border border-slate-200">
+                          <input
+                            type="checkbox"
+                            checked={c.enabled}
+                            onChange={(e) => updateCalendar(c.id, { enabled: e.target.checked })}
+                          />
+                        </td>
+                        <td className="p-2 border border-slate-200">
+                          <input
+                            type="text"
+                            className="w-full"
+                            value={c.name}
+                            onChange={(e) => updateCalendar(c.id, { name: e.target.value })}
+                          />
+                        </td>
+                        <td className="p-2 border border-slate-200 text-right">{formatInt(c.holidays.length)}</td>
+                        <td className="p-2 border border-slate-200 text-xs">
+                          {c.holidays.length
+                            ? `${c.holidays[0].date} a ${c.holidays[c.holidays.length - 1].date}`
+                            : "—"}
+                        </td>
+                        <td className="p-2 border border-slate-200 text-right">
+                          <button
+                            type="button"
+                            className="text-xs"
+                            style={{ color: UI.danger }}
+                            onClick={() =>
+                              onChange({ ...calendar, calendars: calendar.calendars.filter((x) => x.id !== c.id) })
+                            }
+                          >
+                            Eliminar
+                          </button>
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            ) : (
+              <p className={"mt-1 " + UI.subtle}>
+                Sin feriados: importa un ICS (p.ej. exportado de Google Calendar) o un CSV con columnas fecha, nombre.
+              </p>
+            )}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+}
+
+// Costo de guardia: por ticket atendido en Guardia o por turno (un turno de guardia por día calendario)
+type GuardCostModel = {
+  mode: "ticket" | "shift";
+  costPerTicket: number;
+  costPerShift: number;
+  currency: string;
+};
+
+const DEFAULT_GUARD_COST_MODEL: GuardCostModel = { mode: "ticket", costPerTicket: 0, costPerShift: 0, currency: "USD" };
+
+const GUARD_COST_STORAGE_KEY = "janis-care.guard-cost-model";
+
+function loadGuardCostModel() {
+  return loadStoredJson<GuardCostModel>(GUARD_COST_STORAGE_KEY, DEFAULT_GUARD_COST_MODEL, (v) =>
+    isJsonObject(v) ? { ...DEFAULT_GUARD_COST_MODEL, ...(v as Partial<GuardCostModel>) } : null
+  );
+}
+
+function formatMoney(value: number, currency: string) {
+  return `${currency} ${new Intl.NumberFormat("es-CL", { maximumFractionDigits: 0 }).format(value)}`;
+}
+
+function GuardShiftReport({
+  rows,
+  teamRows,
+  isNormalSchedule,
+  costModel,
+  onCostModelChange,
+}: {
+  rows: Row[];
+  teamRows: Row[]; // dataset completo (sin filtros de vista): cobertura del export y guardia de todo el equipo
+  isNormalSchedule: (r: Row) => boolean;
+  costModel: GuardCostModel;
+  onCostModelChange: (model: GuardCostModel) => void;
+}) {
+  const report = useMemo(() => {
+    const guardRows = rows.filter((r) => !isNormalSchedule(r));
+
+    // HDI vinculados levantados fuera de horario (primer ticket que los referencia cae en Guardia)
+    const firstSeenByLinkedKey = new Map<string, Row>();
+    rows.forEach((r) => {
+      (r.linkedKeys || []).forEach((k) => {
+        if (!firstSeenByLinkedKey.has(k)) firstSeenByLinkedKey.set(k, r);
+      });
+    });
+    const guardHdi = Array.from(firstSeenByLinkedKey.entries())
+      .filter(([, r]) => !isNormalSchedule(r))
+      .map(([hdi, r]) => ({ hdi, row: r }));
+
+    const totalsByOrg = new Map<string, number>();
+    rows.forEach((r) => {
+      const org = r.organization || "(Sin organización)";
+      totalsByOrg.set(org, (totalsByOrg.get(org) || 0) + 1);
+    });
+    const guardByOrg = new Map<string, number>();
+    guardRows.forEach((r) => {
+      const org = r.organization || "(Sin organización)";
+      guardByOrg.set(org, (guardByOrg.get(org) || 0) + 1);
+    });
+    const byOrganization = Array.from(guardByOrg.entries())
+      .map(([name, guard]) => ({ name, guard, total: totalsByOrg.get(name) || 0 }))
+      .sort((a, b) => b.guard - a.guard || a.name.localeCompare(b.name));
+
+    const days = ["Lun", "Mar", "Mié", "Jue", "Vie", "Sáb", "Dom"]; // ISO
+    const matrix = Array.from({ length: 24 }, () => days.map(() => 0));
+    guardRows.forEach((r) => {
+      matrix[r.hour][(r.weekday + 6) % 7]++;
+    });
+    const max = matrix.reduce((m, row) => Math.max(m, ...row), 0);
+
+    // Turnos = días del mes dentro del rango que cubre el export (primer y último mes suelen ser parciales)
+    let firstDate = "";
+    let lastDate = "";
+    const teamGuardByMonth = new Map<string, number>();
+    teamRows.forEach((r) => {
+      if (!firstDate || r.date < firstDate) firstDate = r.date;
+      if (!lastDate || r.date > lastDate) lastDate = r.date;
+      if (!isNormalSchedule(r)) teamGuardByMonth.set(r.month, (teamGuardByMonth.get(r.month) || 0) + 1);
+    });
+
+    const months = Array.from(new Set(rows.map((r) => r.month))).sort();
+    const byMonth = months.map((month) => {
+      const guardTickets = guardRows.filter((r) => r.month === month).length;
+      const hdi = guardHdi.filter((x) => x.row.month === month).length;
+      const range = monthRange(month);
+      const from = range && range.from > firstDate ? range.from : firstDate;
+      const to = range && range.to < lastDate ? range.to : lastDate;
+      const shifts = range && from <= to ? (Date.parse(to) - Date.parse(from)) / 86400000 + 1 : 0;
+      // Los turnos son del equipo: la vista (cliente, asignado...) paga según su parte de la guardia del mes
+      const teamGuard = teamGuardByMonth.get(month) || 0;
+      const share = teamGuard ? Math.min(1, guardTickets / teamGuard) : 0;
+      const cost =
+        costModel.mode === "ticket"
+          ? guardTickets * costModel.costPerTicket
+          : shifts * costModel.costPerShift * share;
+      return { month, guardTickets, hdi, shifts, share, cost };
+    });
+
+    return { guardRows, guardHdi, byOrganization, heat: { days, matrix, max }, byMonth, firstDate, lastDate };
+  }, [rows, teamRows, isNormalSchedule, costModel]);
+
+  const totalCost = report.byMonth.reduce((sum, m) => sum + m.cost, 0);
+  const hasCost = costModel.mode === "ticket" ? costModel.costPerTicket > 0 : costModel.costPerShift > 0;
+
+  const updateNumber = (field: "costPerTicket" | "costPerShift", value: string) => {
+    const n = Number(value);
+    if (Number.isFinite(n) && n >= 0) onCostModelChange({ ...costModel, [field]: n });
+  };
+
+  const exportMonthly = () => {
+    downloadCsv(
+      "guardia_por_mes.csv",
+      report.byMonth.map((m) => ({
+        mes: m.month,
+        tickets_guardia: m.guardTickets,
+        hdi_fuera_de_horario: m.hdi,
+        turnos: m.shifts,
+        participacion_guardia_pct: Math.round(m.share * 1000) / 10,
+        [`costo_${costModel.currency}`]: Math.round(m.cost),
+      }))
+    );
+  };
+
+  return (
+    <div className="mt-3 grid grid-cols-1 gap-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <div className={UI.subtle}>Modelo de costo</div>
+        <select
+          className="md:w-48"
+          value={costModel.mode}
+          onChange={(e) => onCostModelChange({ ...costModel, mode: e.target.value as GuardCostModel["mode"] })}
+        >
+          <option value="ticket">Por ticket de guardia</option>
+          <option value="shift">Por turno (día calendario)</option>
+        </select>
+        <Input
+          type="number"
+          className="md:w-32"
+          min={0}
+          title={costModel.mode === "ticket" ? "Costo por ticket" : "Costo por turno"}
+          value={costModel.mode === "ticket" ? costModel.costPerTicket : costModel.costPerShift}
+          onChange={(e) => updateNumber(costModel.mode === "ticket" ? "costPerTicket" : "costPerShift", e.target.value)}
+        />
+        <Input
+          type="text"
+          className="md:w-20"
+          title="Moneda"
+          value={costModel.currency}
+          onChange={(e) => onCostModelChange({ ...costModel, currency: e.target.value.toUpperCase().slice(0, 3) })}
+        />
+        <div className="text-sm text-slate-700">
+          {hasCost
+            ? `Total período: ${formatMoney(totalCost, costModel.currency)}`
+            : "Define un costo para estimarlo."}
+        </div>
+        <Button
+          className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 md:ml-auto"
+          disabled={!report.byMonth.length}
+          onClick={exportMonthly}
+        >
+          Exportar CSV
+        </Button>
+      </div>
+      {costModel.mode === "shift" ? (
+        <p className={UI.subtle}>
+          Turnos contados solo entre {report.firstDate} y {report.lastDate} (rango del export). El costo de turnos es
+          del equipo: se prorratea por la parte de los tickets de guardia del mes que corresponde a la vista filtrada.
+        </p>
+      ) : null}
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Tickets de Guardia y HDI fuera de horario por mes</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={report.byMonth}>
+                <CartesianGrid stroke={UI.grid} />
+                <XAxis dataKey="month" tickFormatter={monthLabel as any} />
+                <YAxis allowDecimals={false} />
+                <Tooltip labelFormatter={(l) => monthLabel(String(l))} />
+                <Legend />
+                <Bar dataKey="guardTickets" name="Tickets Guardia" fill={UI.primary} />
+                <Bar dataKey="hdi" name="HDI fuera de horario" fill={UI.warning} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Costo de guardia por mes ({costModel.currency})</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64">
+            {hasCost ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <LineChart data={report.byMonth}>
+                  <CartesianGrid stroke={UI.grid} />
+                  <XAxis dataKey="month" tickFormatter={monthLabel as any} />
+                  <YAxis />
+                  <Tooltip
+                    labelFormatter={(l) => monthLabel(String(l))}
+                    formatter={(v: any) => [formatMoney(Number(v), costModel.currency), "Costo"]}
+                  />
+                  <Line type="monotone" dataKey="cost" name="Costo" stroke={UI.primary} strokeWidth={2} dot />
+                </LineChart>
+              </ResponsiveContainer>
+            ) : (
+              <p className={UI.subtle}>Sin costo configurado.</p>
+            )}
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Guardia por organización</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">Organización</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets Guardia</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">% de sus tickets</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">% de la Guardia</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.byOrganization.map((o) => (
+                    <tr key={o.name}>
+                      <td className="p-2 border border-slate-200">{o.name}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(o.guard)}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatPct(pct(o.guard, o.total))}</td>
+                      <td className="p-2 border border-slate-200 text-right">
+                        {formatPct(pct(o.guard, report.guardRows.length))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Guardia por día y hora</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full border-collapse text-xs">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-1 border border-slate-200 bg-slate-50">Hora</th>
+                    {report.heat.days.map((d) => (
+                      <th key={d} className="p-1 border border-slate-200 bg-slate-50">
+                        {d}
+                      </th>
+                    ))}
+                  </tr>
+                </thead>
+                <tbody>
+                  {report.heat.matrix.map((row, hour) => (
+                    <tr key={hour}>
+                      <td className="p-1 border border-slate-200 font-semibold text-slate-700">
+                        {String(hour).padStart(2, "0")}:00
+                      </td>
+                      {row.map((v, i) => (
+                        <td
+                          key={i}
+                          className="p-1 border border-slate-200 text-center"
+                          style={heatBg(v, report.heat.max)}
+                        >
+                          {v ? formatInt(v) : ""}
+                        </td>
+                      ))}
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+
+      {report.guardHdi.length ? (
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>
+              HDI levantados fuera de horario ({formatInt(report.guardHdi.length)})
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-64 overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">HDI</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Ticket</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Organización</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Creado</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {[...report.guardHdi]
+                    .sort((a, b) => b.row.creada.getTime() - a.row.creada.getTime())
+                    .map((x) => (
+                      <tr key={x.hdi}>
+                        <td className="p-2 border border-slate-200 font-mono text-xs">{x.hdi}</td>
+                        <td className="p-2 border border-slate-200 font-mono text-xs">{x.row.key}</td>
+                        <td className="p-2 border border-slate-200">{x.row.organization}</td>
+                        <td className="p-2 border border-slate-200">
+                          {formatRowCreated(x.row)}
+                        </td>
+                      </tr>
+                    ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+      ) : null}
+    </div>
+  );
+}
+
+type HdiSummary = {
+  hdi: string;
+  firstSeen: Row;
+  tickets: Row[];
+  organizations: string[];
+  guard: boolean;
+};
+
+// Un HDI se "ve" por primera vez en el ticket más antiguo que lo referencia
+function buildHdiSummaries(rows: Row[], isNormalSchedule: (r: Row) => boolean): HdiSummary[] {
+  const byHdi = new Map<string, Row[]>();
+  rows.forEach((r) => {
+    (r.linkedKeys || []).forEach((k) => {
+      const list = byHdi.get(k);
+      if (list) list.push(r);
+      else byHdi.set(k, [r]);
+    });
+  });
+  return Array.from(byHdi.entries())
+    .map(([hdi, tickets]) => {
+      const sorted = [...tickets].sort((a, b) => a.creada.getTime() - b.creada.getTime());
+      return {
+        hdi,
+        firstSeen: sorted[0],
+        tickets: sorted,
+        organizations: Array.from(new Set(sorted.map((r) => r.organization).filter(Boolean))).sort(),
+        guard: !isNormalSchedule(sorted[0]),
+      };
+    })
+    .sort((a, b) => b.tickets.length - a.tickets.length || b.firstSeen.creada.getTime() - a.firstSeen.creada.getTime());
+}
+
+// Línea base diaria = promedio de los 28 días previos; impacto = tickets en las 48 h desde el primer ticket del HDI
+const HDI_BASELINE_DAYS = 28;
+const HDI_IMPACT_HOURS = 48;
+
+function buildDailyTimeline(rows: Row[]) {
+  const counts = new Map<string, number>();
+  rows.forEach((r) => counts.set(r.date, (counts.get(r.date) || 0) + 1));
+  const dates = Array.from(counts.keys()).sort();
+  if (!dates.length) return [];
+
+  const timeline: Array<{ date: string; tickets: number; baseline: number | null }> = [];
+  for (let d = dates[0]; d <= dates[dates.length - 1]; d = shiftIsoDate(d, 1)) {
+    const previous = timeline.slice(-HDI_BASELINE_DAYS);
+    timeline.push({
+      date: d,
+      tickets: counts.get(d) || 0,
+      // Con menos de una semana de historia la línea base no es representativa
+      baseline: previous.length >= 7 ? previous.reduce((sum, x) => sum + x.tickets, 0) / previous.length : null,
+    });
+  }
+  return timeline;
+}
+
+function hdiImpact(summary: HdiSummary, sortedCreatedMs: number[], baselineByDate: Map<string, number | null>) {
+  const start = summary.firstSeen.creada.getTime();
+  const end = start + HDI_IMPACT_HOURS * 3600 * 1000;
+  const lowerBound = (value: number) => {
+    let lo = 0;
+    let hi = sortedCreatedMs.length;
+    while (lo < hi) {
+      const mid = (lo + hi) >> 1;
+      if (sortedCreatedMs[mid] < value) lo = mid + 1;
+      else hi = mid;
+    }
+    return lo;
+  };
+  const actual = lowerBound(end) - lowerBound(start);
+  const baseline = baselineByDate.get(summary.firstSeen.date);
+  const expected = baseline == null ? null : (baseline * HDI_IMPACT_HOURS) / 24;
+  return { actual, expected, excess: expected == null ? null : actual - expected };
+}
+
+function formatRowCreated(r: Row) {
+  return `${r.date} ${String(r.hour).padStart(2, "0")}h`;
+}
+
+function HdiExplorer({ rows, isNormalSchedule }: { rows: Row[]; isNormalSchedule: (r: Row) => boolean }) {
+  const [query, setQuery] = useState("");
+  const [selectedHdi, setSelectedHdi] = useState<string | null>(null);
+
+  const [sortBy, setSortBy] = useState<"tickets" | "excess">("tickets");
+  const [timelineDays, setTimelineDays] = useState(180);
+
+  const timeline = useMemo(() => buildDailyTimeline(rows), [rows]);
+  const summaries = useMemo(() => {
+    const sortedCreatedMs = rows.map((r) => r.creada.getTime()).sort((a, b) => a - b);
+    const baselineByDate = new Map(timeline.map((d) => [d.date, d.baseline]));
+    return buildHdiSummaries(rows, isNormalSchedule).map((s) => ({
+      ...s,
+      impact: hdiImpact(s, sortedCreatedMs, baselineByDate),
+    }));
+  }, [rows, isNormalSchedule, timeline]);
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    const matches = q
+      ? summaries.filter(
+          (s) => s.hdi.toLowerCase().includes(q) || s.organizations.some((o) => o.toLowerCase().includes(q))
+        )
+      : summaries;
+    if (sortBy === "tickets") return matches;
+    return [...matches].sort((a, b) => (b.impact.excess ?? -Infinity) - (a.impact.excess ?? -Infinity));
+  }, [summaries, query, sortBy]);
+
+  const timelineWindow = useMemo(
+    () => (timelineDays > 0 ? timeline.slice(-timelineDays) : timeline),
+    [timeline, timelineDays]
+  );
+  // Marcadores: HDI visibles dentro de la ventana (máx. 30, los de mayor impacto)
+  const markers = useMemo(() => {
+    if (!timelineWindow.length) return [];
+    const from = timelineWindow[0].date;
+    return visible
+      .filter((s) => s.firstSeen.date >= from)
+      .sort((a, b) => (b.impact.excess ?? b.tickets.length) - (a.impact.excess ?? a.tickets.length))
+      .slice(0, 30);
+  }, [visible, timelineWindow]);
+
+  const exportHdis = () => {
+    downloadCsv(
+      "hdi_vinculados.csv",
+      visible.map((s) => ({
+        hdi: s.hdi,
+        primer_ticket: s.firstSeen.key,
+        primera_vez: formatRowCreated(s.firstSeen),
+        horario: s.guard ? "Guardia" : "Normal",
+        tickets: s.tickets.length,
+        organizaciones: s.organizations.length,
+        tickets_48h: s.impact.actual,
+        esperado_48h: s.impact.expected == null ? "" : Number(s.impact.expected.toFixed(1)),
+        exceso_48h: s.impact.excess == null ? "" : Number(s.impact.excess.toFixed(1)),
+        detalle_organizaciones: s.organizations.join("; "),
+        detalle_tickets: s.tickets.map((r) => r.key).join("; "),
+      }))
+    );
+  };
+
+  if (!summaries.length) {
+    return <p className={UI.subtle}>Ningún ticket de la vista referencia un HDI.</p>;
+  }
+
+  return (
+    <div>
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <Input
+          type="text"
+          className="md:w-72"
+          placeholder="Buscar HDI u organización"
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+        />
+        <select className="md:w-56" value={sortBy} onChange={(e) => setSortBy(e.target.value as typeof sortBy)}>
+          <option value="tickets">Ordenar por tickets vinculados</option>
+          <option value="excess">Ordenar por exceso 48 h</option>
+        </select>
+        <div className={UI.subtle}>
+          {formatInt(visible.length)} de {formatInt(summaries.length)} HDI · clic en una fila para ver sus tickets
+        </div>
+        <Button
+          className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 md:ml-auto"
+          disabled={!visible.length}
+          onClick={exportHdis}
+        >
+          Exportar CSV
+        </Button>
+      </div>
+
+      <div className="mt-4 flex items-center justify-between gap-2">
+        <div className="text-sm font-semibold text-slate-700">Tickets por día y primera aparición de HDI</div>
+        <select value={timelineDays} onChange={(e) => setTimelineDays(Number(e.target.value))}>
+          <option value={90}>Últimos 90 días</option>
+          <option value={180}>Últimos 180 días</option>
+          <option value={365}>Últimos 365 días</option>
+          <option value={0}>Todo el período</option>
+        </select>
+      </div>
+      <div className="mt-2 h-64">
+        <ResponsiveContainer width="100%" height="100%">
+          <LineChart data={timelineWindow}>
+            <CartesianGrid stroke={UI.grid} />
+            <XAxis dataKey="date" minTickGap={24} />
+            <YAxis allowDecimals={false} />
+            <Tooltip
+              formatter={(v: any, n: any) => [n === "Línea base" ? Number(v).toFixed(1) : formatInt(v), n]}
+            />
+            <Legend />
+            {markers.map((s) => (
+              <ReferenceLine
+                key={s.hdi}
+                x={s.firstSeen.date}
+                stroke={UI.warning}
+                strokeDasharray="3 3"
+                label={{ value: s.hdi, position: "top", fontSize: 9, fill: "#64748b" }}
+              />
+            ))}
+            <Line type="monotone" dataKey="tickets" name="Tickets" stroke={UI.primary} dot={false} strokeWidth={2} />
+            <Line
+              type="monotone"
+              dataKey="baseline"
+              name="Línea base"
+              stroke="#94a3b8"
+              strokeDasharray="4 4"
+              dot={false}
+              connectNulls
+            />
+          </LineChart>
+        </ResponsiveContainer>
+      </div>
+      <p className={"mt-1 " + UI.subtle}>
+        Exceso 48 h = tickets creados en las {HDI_IMPACT_HOURS} h siguientes al primer ticket del HDI, menos lo esperado
+        según el promedio diario de los {HDI_BASELINE_DAYS} días previos.
+      </p>
+
+      <div className="mt-3 max-h-[28rem] overflow-auto">
+        <table className="w-full border-collapse text-sm">
+          <thead>
+            <tr className="text-left">
+              <th className="p-2 border border-slate-200 bg-slate-50">HDI</th>
+              <th className="p-2 border border-slate-200 bg-slate-50">Primera vez</th>
+              <th className="p-2 border border-slate-200 bg-slate-50">Horario</th>
+              <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+              <th className="p-2 border border-slate-200 bg-slate-50 text-right">Exceso 48 h</th>
+              <th className="p-2 border border-slate-200 bg-slate-50">Organizaciones</th>
+            </tr>
+          </thead>
+          <tbody>
+            {visible.map((s) => {
+              const open = selectedHdi === s.hdi;
+              return (
+                <React.Fragment key={s.hdi}>
+                  <tr
+                    className={"cursor-pointer hover:bg-slate-50" + (open ? " bg-slate-50" : "")}
+                    onClick={() => setSelectedHdi(open ? null : s.hdi)}
+                  >
+                    <td className="p-2 border border-slate-200 font-mono text-xs">
+                      {open ? "▾" : "▸"} {s.hdi}
+                    </td>
+                    <td className="p-2 border border-slate-200">{formatRowCreated(s.firstSeen)}</td>
+                    <td className="p-2 border border-slate-200">
+                      <span style={{ color: s.guard ? UI.warning : UI.primary }}>{s.guard ? "Guardia" : "Normal"}</span>
+                    </td>
+                    <td className="p-2 border border-slate-200 text-right">{formatInt(s.tickets.length)}</td>
+                    <td
+                      className="p-2 border border-slate-200 text-right"
+                      title={
+                        s.impact.expected == null
+                          ? "Sin historia suficiente para la línea base"
+                          : `${formatInt(s.impact.actual)} tickets vs ${s.impact.expected.toFixed(1)} esperados`
+                      }
+                    >
+                      {s.impact.excess == null
+                        ? "—"
+                        : `${s.impact.excess > 0 ? "+" : ""}${s.impact.excess.toFixed(1)}`}
+                    </td>
+                    <td className="p-2 border border-slate-200" title={s.organizations.join(", ")}>
+                      {s.organizations.length > 3
+                        ? `${s.organizations.slice(0, 3).join(", ")} y ${formatInt(s.organizations.length - 3)} más`
+                        : s.organizations.join(", ") || "—"}
+                    </td>
+                  </tr>
+                  {open ? (
+                    <tr>
+                      <td colSpan={6} className="p-2 border border-slate-200 bg-slate-50">
+                        <table className="w-full border-collapse text-xs">
+                          <thead>
+                            <tr className="text-left">
+                              <th className="p-1 border border-slate-200 bg-white">Ticket</th>
+                              <th className="p-1 border border-slate-200 bg-white">Creado</th>
+                              <th className="p-1 border border-slate-200 bg-white">Organización</th>
+                              <th className="p-1 border border-slate-200 bg-white">Estado</th>
+                              <th className="p-1 border border-slate-200 bg-white">Asignado</th>
+                            </tr>
+                          </thead>
+                          <tbody>
+                            {s.tickets.map((r) => (
+                              <tr key={r.key} className="bg-white">
+                                <td className="p-1 border border-slate-200 font-mono">{r.key}</td>
+                                <td className="p-1 border border-slate-200">{formatRowCreated(r)}</td>
+                                <td className="p-1 border border-slate-200">{r.organization || "—"}</td>
+                                <td className="p-1 border border-slate-200">{r.estado || "—"}</td>
+                                <td className="p-1 border border-slate-200">{r.asignado || "—"}</td>
+                              </tr>
+                            ))}
+                          </tbody>
+                        </table>
+                      </td>
+                    </tr>
+                  ) : null}
+                </React.Fragment>
+              );
+            })}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+}
+
+const BACKLOG_AGE_COLORS = [UI.ok, UI.primary, UI.warning, UI.danger];
+
+function BacklogAgingReport({ aging, asOfDate }: { aging: BacklogAging; asOfDate: string }) {
+  const [groupBy, setGroupBy] = useState<"status" | "organization" | "assignee">("status");
+  const [oldestLimit, setOldestLimit] = useState(25);
+
+  const groups =
+    groupBy === "status" ? aging.byStatus : groupBy === "organization" ? aging.byOrganization : aging.byAssignee;
+  const groupLabel = groupBy === "status" ? "Estado" : groupBy === "organization" ? "Organización" : "Asignado";
+  const chartData = groups.slice(0, 12).map((g) => ({
+    name: g.name,
+    ...Object.fromEntries(BACKLOG_AGE_BUCKETS.map((b, i) => [b.label, g.buckets[i]])),
+  }));
+  const totals = BACKLOG_AGE_BUCKETS.map((_, i) => aging.tickets.filter((t) => t.bucket === i).length);
+
+  const exportTickets = () => {
+    downloadCsv(
+      "backlog_antiguedad.csv",
+      aging.tickets.map((t) => ({
+        key: t.row.key,
+        organizacion: t.row.organization,
+        estado: t.row.estado,
+        asignado: t.row.asignado,
+        creada: formatRowCreated(t.row),
+        antiguedad_dias: t.ageDays,
+        tramo: BACKLOG_AGE_BUCKETS[t.bucket].label,
+      }))
+    );
+  };
+
+  if (!aging.tickets.length) {
+    return <p className={UI.subtle}>No hay tickets abiertos o en espera en la vista.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <select
+          className="md:w-48"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+        >
+          <option value="status">Por estado</option>
+          <option value="organization">Por organización</option>
+          <option value="assignee">Por asignado</option>
+        </select>
+        <div className={UI.subtle}>
+          Antigüedad al {asOfDate} (fecha más reciente del export) ·{" "}
+          {BACKLOG_AGE_BUCKETS.map((b, i) => `${b.label}: ${formatInt(totals[i])}`).join(" · ")}
+        </div>
+        <Button
+          className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 md:ml-auto"
+          onClick={exportTickets}
+        >
+          Exportar CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="h-72">
+          <ResponsiveContainer width="100%" height="100%">
+            <BarChart data={chartData} layout="vertical" margin={{ left: 24 }}>
+              <CartesianGrid stroke={UI.grid} />
+              <XAxis type="number" allowDecimals={false} />
+              <YAxis type="category" dataKey="name" width={140} tick={{ fontSize: 11 }} />
+              <Tooltip />
+              <Legend />
+              {BACKLOG_AGE_BUCKETS.map((b, i) => (
+                <Bar key={b.label} dataKey={b.label} stackId="age" fill={BACKLOG_AGE_COLORS[i]} />
+              ))}
+            </BarChart>
+          </ResponsiveContainer>
+        </div>
+
+        <div className="max-h-72 overflow-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="p-2 border border-slate-200 bg-slate-50">{groupLabel}</th>
+                {BACKLOG_AGE_BUCKETS.map((b) => (
+                  <th key={b.label} className="p-2 border border-slate-200 bg-slate-50 text-right">
+                    {b.label}
+                  </th>
+                ))}
+                <th className="p-2 border border-slate-200 bg-slate-50 text-right">Total</th>
+                <th className="p-2 border border-slate-200 bg-slate-50 text-right">Más antiguo</th>
+              </tr>
+            </thead>
+            <tbody>
+              {groups.map((g) => (
+                <tr key={g.name}>
+                  <td className="p-2 border border-slate-200">{g.name}</td>
+                  {g.buckets.map((n, i) => (
+                    <td key={i} className="p-2 border border-slate-200 text-right">
+                      {n ? formatInt(n) : "—"}
+                    </td>
+                  ))}
+                  <td className="p-2 border border-slate-200 text-right font-semibold">{formatInt(g.total)}</td>
+                  <td className="p-2 border border-slate-200 text-right">{formatInt(g.oldestDays)}d</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+
+      <div>
+        <div className="flex items-center justify-between gap-2">
+          <div className="text-sm font-semibold text-slate-700">Tickets más antiguos</div>
+          <select value={oldestLimit} onChange={(e) => setOldestLimit(Number(e.target.value))}>
+            <option value={25}>Top 25</option>
+            <option value={50}>Top 50</option>
+            <option value={100}>Top 100</option>
+          </select>
+        </div>
+        <div className="mt-2 max-h-[28rem] overflow-auto">
+          <table className="w-full border-collapse text-sm">
+            <thead>
+              <tr className="text-left">
+                <th className="p-2 border border-slate-200 bg-slate-50">Key</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Organización</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Estado</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Asignado</th>
+                <th className="p-2 border border-slate-200 bg-slate-50">Creada</th>
+                <th className="p-2 border border-slate-200 bg-slate-50 text-right">Antigüedad</th>
+              </tr>
+            </thead>
+            <tbody>
+              {aging.tickets.slice(0, oldestLimit).map((t) => (
+                <tr key={t.row.key || formatRowCreated(t.row)}>
+                  <td className="p-2 border border-slate-200 font-mono text-xs">{t.row.key || "—"}</td>
+                  <td className="p-2 border border-slate-200">{t.row.organization || "—"}</td>
+                  <td className="p-2 border border-slate-200">{t.row.estado || "—"}</td>
+                  <td className="p-2 border border-slate-200">{t.row.asignado || "—"}</td>
+                  <td className="p-2 border border-slate-200">{formatRowCreated(t.row)}</td>
+                  <td
+                    className="p-2 border border-slate-200 text-right"
+                    style={{ color: BACKLOG_AGE_COLORS[t.bucket] }}
+                  >
+                    {formatInt(t.ageDays)}d
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </div>
+    </div>
+  );
+}
+
+function SnapshotHistoryReport({ history }: { history: SnapshotHistory }) {
+  const exportReopens = () => {
+    downloadCsv(
+      "reaperturas_snapshots.csv",
+      history.reopens.map((r) => ({
+        key: r.key,
+        organizacion: r.organization,
+        estado_anterior: r.from,
+        estado_nuevo: r.to,
+        snapshot_anterior: r.fromDate,
+        snapshot_nuevo: r.toDate,
+      }))
+    );
+  };
+
+  if (history.points.length < 2) {
+    return (
+      <p className={UI.subtle}>
+        Se necesitan al menos dos exports Jira con fecha de snapshot (ver Datasets guardados) para comparar.
+      </p>
+    );
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <div className={UI.subtle}>
+          {formatInt(history.points.length)} snapshots · {formatInt(history.reopens.length)} reaperturas detectadas
+        </div>
+        <Button
+          className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 md:ml-auto"
+          disabled={!history.reopens.length}
+          onClick={exportReopens}
+        >
+          Exportar reaperturas CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Backlog por snapshot</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <LineChart data={history.points}>
+                <CartesianGrid stroke={UI.grid} />
+                <XAxis dataKey="date" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Line type="monotone" dataKey="backlog" name="Backlog" stroke={UI.warning} strokeWidth={2} dot />
+                <Line type="monotone" dataKey="tickets" name="Tickets en el export" stroke={UI.primary} dot />
+              </LineChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Cambios respecto del snapshot anterior</CardTitle>
+          </CardHeader>
+          <CardContent className="h-64">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={history.points.slice(1)}>
+                <CartesianGrid stroke={UI.grid} />
+                <XAxis dataKey="date" />
+                <YAxis allowDecimals={false} />
+                <Tooltip />
+                <Legend />
+                <Bar dataKey="newTickets" name="Nuevos" fill={UI.primaryLight} />
+                <Bar dataKey="transitions" name="Cambios de estado" fill={UI.primary} />
+                <Bar dataKey="reopens" name="Reaperturas" fill={UI.danger} />
+              </BarChart>
+            </ResponsiveContainer>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Transiciones de estado entre snapshots</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">Desde</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Hacia</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.transitions.map((t) => (
+                    <tr key={`${t.from}→${t.to}`}>
+                      <td className="p-2 border border-slate-200">{t.from || "—"}</td>
+                      <td className="p-2 border border-slate-200">{t.to || "—"}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(t.count)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {!history.transitions.length ? <p className={"mt-2 " + UI.subtle}>Sin cambios de estado.</p> : null}
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Reaperturas (cerrado → abierto)</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-72 overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">Key</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Organización</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Estado</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50">Entre</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {history.reopens.map((r) => (
+                    <tr key={`${r.key}-${r.toDate}`}>
+                      <td className="p-2 border border-slate-200 font-mono text-xs">{r.key}</td>
+                      <td className="p-2 border border-slate-200">{r.organization || "—"}</td>
+                      <td className="p-2 border border-slate-200">
+                        {r.from} → {r.to}
+                      </td>
+                      <td className="p-2 border border-slate-200 whitespace-nowrap">
+                        {r.fromDate} y {r.toDate}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+              {!history.reopens.length ? <p className={"mt-2 " + UI.subtle}>Sin reaperturas.</p> : null}
+            </div>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function ChangelogReport({ metrics }: { metrics: ChangelogMetrics }) {
+  const [groupBy, setGroupBy] = useState<"month" | "organization">("month");
+  const groups = groupBy === "month" ? metrics.byMonth : metrics.byOrganization;
+
+  const exportFlagged = () => {
+    downloadCsv(
+      "changelog_reaperturas_pingpong.csv",
+      metrics.flagged.map((x) => ({
+        key: x.row.key,
+        organizacion: x.row.organization,
+        mes: x.row.month,
+        estado_actual: x.row.estado,
+        reaperturas: x.reopens,
+        ping_pong: x.pingPongs,
+      }))
+    );
+  };
+
+  if (!metrics.overall.tickets) {
+    return <p className={UI.subtle}>Ningún ticket de la vista tiene transiciones en el changelog.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 gap-3">
+      <div className="flex flex-col gap-2 md:flex-row md:items-center">
+        <select
+          className="md:w-48"
+          value={groupBy}
+          onChange={(e) => setGroupBy(e.target.value as typeof groupBy)}
+        >
+          <option value="month">Por mes de creación</option>
+          <option value="organization">Por organización</option>
+        </select>
+        <div className={UI.subtle}>
+          Tasa de reapertura {formatPct(metrics.overall.reopenRate)} ({formatInt(metrics.overall.reopened)} de{" "}
+          {formatInt(metrics.overall.resolved)} resueltos) · {formatInt(metrics.overall.pingPong)} tickets con ping-pong
+        </div>
+        <Button
+          className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50 md:ml-auto"
+          disabled={!metrics.flagged.length}
+          onClick={exportFlagged}
+        >
+          Exportar CSV
+        </Button>
+      </div>
+
+      <div className="grid grid-cols-1 gap-3 md:grid-cols-2">
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>
+              Reaperturas y ping-pong {groupBy === "month" ? "por mes" : "por organización"}
+            </CardTitle>
+          </CardHeader>
+          <CardContent>
+            {groupBy === "month" ? (
+              <div className="h-56">
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={metrics.byMonth}>
+                    <CartesianGrid stroke={UI.grid} />
+                    <XAxis dataKey="name" tickFormatter={monthLabel as any} />
+                    <YAxis unit="%" />
+                    <Tooltip
+                      labelFormatter={(l) => monthLabel(String(l))}
+                      formatter={(v: any) => [formatPct(Number(v)), "Tasa de reapertura"]}
+                    />
+                    <Line type="monotone" dataKey="reopenRate" stroke={UI.danger} strokeWidth={2} dot />
+                  </LineChart>
+                </ResponsiveContainer>
+              </div>
+            ) : null}
+            <div className="mt-2 max-h-72 overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">
+                      {groupBy === "month" ? "Mes" : "Organización"}
+                    </th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Resueltos</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Reabiertos</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tasa</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Ping-pong</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {groups.map((g) => (
+                    <tr key={g.name}>
+                      <td className="p-2 border border-slate-200">
+                        {groupBy === "month" ? monthLabel(g.name) : g.name}
+                      </td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(g.tickets)}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(g.resolved)}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(g.reopened)}</td>
+                      <td className="p-2 border border-slate-200 text-right">
+                        {g.resolved ? formatPct(g.reopenRate) : "—"}
+                      </td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(g.pingPong)}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+          </CardContent>
+        </Card>
+
+        <Card className={UI.card}>
+          <CardHeader>
+            <CardTitle className={UI.title}>Tiempo en cada estado</CardTitle>
+          </CardHeader>
+          <CardContent>
+            <div className="max-h-[26rem] overflow-auto">
+              <table className="w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">Estado</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Mediana</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">Horas totales</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {metrics.timeInStatus.map((t) => (
+                    <tr key={t.status}>
+                      <td className="p-2 border border-slate-200">{t.status}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(t.tickets)}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatHours(t.medianHours)}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(Math.round(t.totalHours))}</td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            </div>
+            <p className={"mt-2 " + UI.subtle}>
+              El estado inicial cuenta desde la creación; el actual, hasta la fecha del export si sigue abierto.
+            </p>
+          </CardContent>
+        </Card>
+      </div>
+    </div>
+  );
+}
+
+function normalizeOrgKey(value: string) {
+  return String(value || "")
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+type OrgAlias = {
+  jiraOrganization: string;
+  clientCode: string;
+};
+
+type OrgKeyResolver = (value: string) => string;
+
+const ORG_ALIASES_STORAGE_KEY = "janis-care.org-aliases";
+
+function loadOrgAliases() {
+  return loadStoredJson<OrgAlias[]>(ORG_ALIASES_STORAGE_KEY, [], (v) => (Array.isArray(v) ? v : null));
+}
+
+// Clave canónica de organización: los nombres Jira con alias se resuelven al client code de Janis
+function buildOrgKeyResolver(aliases: OrgAlias[]): OrgKeyResolver {
+  const byJiraKey = new Map<string, string>();
+  aliases.forEach((a) => {
+    const from = normalizeOrgKey(a.jiraOrganization);
+    const to = normalizeOrgKey(a.clientCode);
+    if (from && to) byJiraKey.set(from, to);
+  });
+  return (value: string) => {
+    const key = normalizeOrgKey(value);
+    return byJiraKey.get(key) ?? key;
+  };
+}
+
+function parseOrgAliasCsv(text: string) {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = res.meta.fields || [];
+  const findHeader = (candidates: string[]) => headers.find((h) => candidates.includes(normalizeOrgKey(h)));
+  const jiraHeader =
+    findHeader(["jiraorganization", "organizacionjira", "organization", "organizacion", "jira"]) ?? headers[0];
+  const codeHeader = findHeader(["clientcode", "codigocliente", "client", "janis"]) ?? headers[1];
+
+  const aliases: OrgAlias[] = [];
+  let skipped = 0;
+  res.data.forEach((r: Record<string, any>) => {
+    const jiraOrganization = String(r[jiraHeader] ?? "").trim();
+    const clientCode = String(r[codeHeader] ?? "").trim();
+    if (!jiraOrganization || !clientCode) {
+      skipped++;
+      return;
+    }
+    aliases.push({ jiraOrganization, clientCode });
+  });
+  return { aliases: dedupeOrgAliases(aliases), skipped };
+}
+
+// Un nombre Jira apunta a un único client code (el último gana)
+function dedupeOrgAliases(aliases: OrgAlias[]) {
+  const m = new Map<string, OrgAlias>();
+  aliases.forEach((a) => m.set(normalizeOrgKey(a.jiraOrganization), a));
+  return Array.from(m.values()).sort(
+    (a, b) => a.clientCode.localeCompare(b.clientCode) || a.jiraOrganization.localeCompare(b.jiraOrganization)
+  );
+}
+
+type OrgMatchReport = {
+  unmatchedJira: Array<{ organization: string; tickets: number }>;
+  unmatchedJanis: Array<{ clientCode: string; totalOrders: number }>;
+};
+
+function buildOrgMatchReport(rows: Row[], janisRows: JanisRow[], orgKey: OrgKeyResolver): OrgMatchReport {
+  const jiraByKey = new Map<string, { organization: string; tickets: number }>();
+  rows.forEach((r) => {
+    if (!r.organization) return;
+    const key = orgKey(r.organization);
+    const prev = jiraByKey.get(key);
+    jiraByKey.set(key, { organization: prev?.organization ?? r.organization, tickets: (prev?.tickets || 0) + 1 });
+  });
+  const janisByKey = new Map<string, { clientCode: string; totalOrders: number }>();
+  janisRows.forEach((r) => {
+    if (!r.clientCode) return;
+    const key = orgKey(r.clientCode);
+    const prev = janisByKey.get(key);
+    janisByKey.set(key, { clientCode: r.clientCode, totalOrders: (prev?.totalOrders || 0) + r.totalOrders });
+  });
+
+  return {
+    unmatchedJira: Array.from(jiraByKey.entries())
+      .filter(([key]) => !janisByKey.has(key))
+      .map(([, v]) => v)
+      .sort((a, b) => b.tickets - a.tickets),
+    unmatchedJanis: Array.from(janisByKey.entries())
+      .filter(([key]) => !jiraByKey.has(key))
+      .map(([, v]) => v)
+      .sort((a, b) => b.totalOrders - a.totalOrders),
+  };
+}
+
+function shiftYm(ymValue: string, monthDelta: number) {
+  const [yRaw, mRaw] = String(ymValue || "").split("-");
+  const y = Number(yRaw);
+  const m = Number(mRaw);
+  if (!Number.isFinite(y) || !Number.isFinite(m) || m < 1 || m > 12) return ymValue;
+  const d = new Date(y, m - 1 + monthDelta, 1);
+  return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, "0")}`;
+}
+
+type MonthPeriod = {
+  start: string | null;
+  end: string | null;
+};
+
+type ComparisonPeriods = {
+  selectedPeriod: MonthPeriod;
+  comparisonCurrentPeriod: MonthPeriod;
+  comparisonPreviousPeriod: MonthPeriod;
+};
+
+function isValidMonthPeriod(period: MonthPeriod) {
+  return Boolean(period.start && period.end && period.start <= period.end);
+}
+
+function buildComparisonPeriods(selectedPeriod: MonthPeriod): ComparisonPeriods {
+  const emptyComparable = { start: null, end: null };
+  if (!isValidMonthPeriod(selectedPeriod) || !selectedPeriod.start || !selectedPeriod.end) {
+    return {
+      selectedPeriod,
+      comparisonCurrentPeriod: emptyComparable,
+      comparisonPreviousPeriod: emptyComparable,
+    };
+  }
+
+  const latestYear = selectedPeriod.end.slice(0, 4);
+  const latestYearStart = `${latestYear}-01`;
+  const comparisonCurrentStart =
+    selectedPeriod.start > latestYearStart ? selectedPeriod.start : latestYearStart;
+  const comparisonCurrentPeriod = {
+    start: comparisonCurrentStart,
+    end: selectedPeriod.end,
+  };
+
+  return {
+    selectedPeriod,
+    comparisonCurrentPeriod,
+    comparisonPreviousPeriod: {
+      start: shiftYm(comparisonCurrentPeriod.start, -12),
+      end: shiftYm(comparisonCurrentPeriod.end, -12),
+    },
+  };
+}
+
+function periodYear(period: MonthPeriod) {
+  return period.start ? period.start.slice(0, 4) : null;
+}
+
+function interannualMonthRangeLabel(period: MonthPeriod) {
+  if (!period.start || !period.end) return null;
+  const startLabel = monthShortName(period.start);
+  const endLabel = monthShortName(period.end);
+  return startLabel === endLabel ? startLabel : `${startLabel}-${endLabel}`;
+}
+
+type MetricPerformanceDirection = "higher-is-better" | "lower-is-better" | "neutral";
+
+function metricPerformanceClass(
+  current: number | null,
+  previous: number | null,
+  direction: MetricPerformanceDirection
+) {
+  if (direction === "neutral" || current == null || previous == null || current === previous) return "metric-neutral";
+  const isBetter = direction === "higher-is-better" ? current > previous : current < previous;
+  return isBetter ? "metric-better" : "metric-worse";
+}
+
+type PortfolioEntry = {
+  key: string;
+  organization: string;
+  tickets: number;
+  orders: number;
+  per1k: number;
+  deviationFromMedian: number;
+  zScore: number | null;
+  momPct: number | null;
+  lastMonth: string | null;
+};
+
+const PORTFOLIO_Z_STORAGE_KEY = "janis-care.portfolio-z-threshold";
+
+function loadPortfolioZThreshold() {
+  return loadStoredJson(PORTFOLIO_Z_STORAGE_KEY, 2, (v) =>
+    typeof v === "number" && Number.isFinite(v) && v > 0 ? v : null
+  );
+}
+
+// Tickets por 1.000 órdenes por organización (solo orgs con órdenes en Janis); z-score sobre el ratio del portafolio
+function buildPortfolioMatrix(rows: Row[], janisRows: JanisRow[], orgKey: OrgKeyResolver): PortfolioEntry[] {
+  const byKey = new Map<
+    string,
+    { organization: string; tickets: number; orders: number; months: Map<string, { tickets: number; orders: number }> }
+  >();
+  const entryFor = (key: string, label: string) => {
+    const cur = byKey.get(key) || { organization: label, tickets: 0, orders: 0, months: new Map() };
+    byKey.set(key, cur);
+    return cur;
+  };
+  const monthFor = (entry: { months: Map<string, { tickets: number; orders: number }> }, month: string) => {
+    const cur = entry.months.get(month) || { tickets: 0, orders: 0 };
+    entry.months.set(month, cur);
+    return cur;
+  };
+  janisRows.forEach((r) => {
+    if (!r.clientCode) return;
+    const entry = entryFor(orgKey(r.clientCode), r.clientCode);
+    entry.organization = r.clientCode;
+    entry.orders += r.totalOrders;
+    monthFor(entry, r.month).orders += r.totalOrders;
+  });
+  rows.forEach((r) => {
+    if (!r.organization) return;
+    const key = orgKey(r.organization);
+    // Orgs sin órdenes no entran a la matriz (el ratio no está definido)
+    if (!byKey.has(key)) return;
+    const entry = entryFor(key, r.organization);
+    entry.tickets += 1;
+    monthFor(entry, r.month).tickets += 1;
+  });
+
+  const withOrders = Array.from(byKey.entries()).filter(([, e]) => e.orders > 0);
+  const ratios = withOrders.map(([, e]) => (e.tickets / e.orders) * 1000);
+  const median = percentile(ratios, 50) ?? 0;
+  const mean = ratios.length ? ratios.reduce((sum, v) => sum + v, 0) / ratios.length : 0;
+  const variance =
+    ratios.length > 1 ? ratios.reduce((sum, v) => sum + (v - mean) ** 2, 0) / (ratios.length - 1) : 0;
+  const std = Math.sqrt(variance);
+
+  return withOrders
+    .map(([key, e]) => {
+      const per1k = (e.tickets / e.orders) * 1000;
+      const months = Array.from(e.months.entries())
+        .filter(([, m]) => m.orders > 0)
+        .sort((a, b) => a[0].localeCompare(b[0]));
+      const last = months[months.length - 1];
+      const prev = months[months.length - 2];
+      const ratioOf = (m?: [string, { tickets: number; orders: number }]) =>
+        m ? (m[1].tickets / m[1].orders) * 1000 : null;
+      const lastRatio = ratioOf(last);
+      const prevRatio = ratioOf(prev);
+      return {
+        key,
+        organization: e.organization,
+        tickets: e.tickets,
+        orders: e.orders,
+        per1k,
+        deviationFromMedian: per1k - median,
+        zScore: std > 0 ? (per1k - mean) / std : null,
+        momPct: lastRatio != null && prevRatio != null ? monthDeltaPct(lastRatio, prevRatio) : null,
+        lastMonth: last ? last[0] : null,
+      };
+    })
+    .sort((a, b) => b.per1k - a.per1k || b.tickets - a.tickets);
+}
+
+type PeriodKpis = ReturnType<typeof buildPeriodKpis>;
+
+type OrgScorecard = {
+  organization: string;
+  summary: PeriodKpis;
+  backlog: number;
+  monthly: Array<{ month: string; tickets: number; orders: number; per1k: number | null }>;
+  topAssignees: Array<{ name: string; tickets: number }>;
+  periods: ComparisonPeriods;
+  current: PeriodKpis;
+  previous: PeriodKpis;
+};
+
+function OrgScorecardPanel({
+  scorecard,
+  organizations,
+  onSelect,
+  onExecutiveReport,
+  onClose,
+}: {
+  scorecard: OrgScorecard;
+  organizations: string[];
+  onSelect: (organization: string) => void;
+  onExecutiveReport: () => void;
+  onClose: () => void;
+}) {
+  const { summary, current, previous, periods } = scorecard;
+  const currentYear = periodYear(periods.comparisonCurrentPeriod);
+  const previousYear = periodYear(periods.comparisonPreviousPeriod);
+  const rangeLabel = interannualMonthRangeLabel(periods.comparisonCurrentPeriod);
+
+  const guardShare = (k: PeriodKpis) => (k.total ? pct(k.totalGuard, k.total) : null);
+  const comparisonRows: Array<{
+    label: string;
+    value: (k: PeriodKpis) => number | null;
+    format: (v: number) => string;
+    direction: MetricPerformanceDirection;
+    needsOrders?: boolean;
+  }> = [
+    { label: "Tickets", value: (k) => k.total, format: formatInt, direction: "neutral" },
+    {
+      label: "Tickets por 1.000 órdenes",
+      value: (k) => k.ticketsPer1kOrders,
+      format: (v) => v.toFixed(2),
+      direction: "lower-is-better",
+      needsOrders: true,
+    },
+    {
+      label: "SLA Response",
+      value: (k) => (k.total ? k.respOkPct : null),
+      format: formatPct,
+      direction: "higher-is-better",
+    },
+    {
+      label: "SLA Resolution",
+      value: (k) => (k.total ? k.resolOkPct : null),
+      format: formatPct,
+      direction: "higher-is-better",
+    },
+    { label: "CSAT", value: (k) => k.csatAvg, format: (v) => v.toFixed(2), direction: "higher-is-better" },
+    { label: "% Horario Guardia", value: guardShare, format: formatPct, direction: "lower-is-better" },
+    { label: "HDI vinculados", value: (k) => k.linkedTickets, format: formatInt, direction: "lower-is-better" },
+  ];
+
+  const stat = (label: string, value: React.ReactNode, sub?: React.ReactNode) => (
+    <div className="rounded-lg border border-slate-200 p-3">
+      <div className={UI.subtle}>{label}</div>
+      <div className="text-xl font-semibold tracking-tight text-slate-900">{value}</div>
+      {sub ? <div className={UI.subtle}>{sub}</div> : null}
+    </div>
+  );
+
+  return (
+    <Card className={UI.card + " mt-4"}>
+      <CardHeader className="pb-2">
+        <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+          <div>
+            <CardTitle className={UI.title}>Ficha de cliente</CardTitle>
+            <p className={"mt-1 " + UI.subtle}>
+              Período de fechas seleccionado; no aplica los filtros de asignado, estado ni dimensiones.
+            </p>
+          </div>
+          <div className="flex flex-col gap-2 md:flex-row">
+            <select className="md:w-64" value={scorecard.organization} onChange={(e) => onSelect(e.target.value)}>
+              {organizations.map((o) => (
+                <option key={o} value={o}>
+                  {o}
+                </option>
+              ))}
+            </select>
+            <Button
+              className="text-white"
+              style={{ backgroundColor: UI.primary }}
+              disabled={!summary.total}
+              onClick={onExecutiveReport}
+            >
+              Reporte ejecutivo del cliente
+            </Button>
+            <Button className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50" onClick={onClose}>
+              Cerrar
+            </Button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="grid grid-cols-2 gap-3 md:grid-cols-4">
+          {stat("Tickets", formatInt(summary.total), `${formatInt(summary.totalOrders)} órdenes Janis`)}
+          {stat(
+            "Tickets por 1.000 órdenes",
+            summary.ticketsPer1kOrders == null ? "—" : summary.ticketsPer1kOrders.toFixed(2),
+            summary.ordersPerTicketRounded
+              ? `1 ticket cada ${formatInt(summary.ordersPerTicketRounded)} órdenes`
+              : null
+          )}
+          {stat(
+            "SLA Response / Resolution",
+            summary.total ? `${formatPct(summary.respOkPct)} / ${formatPct(summary.resolOkPct)}` : "—"
+          )}
+          {stat(
+            "CSAT",
+            summary.csatAvg == null ? "—" : summary.csatAvg.toFixed(2),
+            `Cobertura: ${formatPct(summary.csatCoverage)}`
+          )}
+          {stat(
+            "Horario Guardia",
+            summary.total ? formatPct(pct(summary.totalGuard, summary.total)) : "—",
+            `${formatInt(summary.totalGuard)} tickets`
+          )}
+          {stat("HDI vinculados", formatInt(summary.linkedTickets), `${formatInt(summary.linkedGuard)} en Guardia`)}
+          {stat("Backlog abierto", formatInt(scorecard.backlog), "Abiertos + esperando cliente")}
+          {stat(
+            "Tiempo de resolución (mediana)",
+            formatHours(summary.ttrMedian),
+            `p90: ${formatHours(summary.ttrP90)}`
+          )}
+        </div>
+
+        <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+          <div>
+            <div className="text-sm font-semibold text-slate-700">Interanual {rangeLabel || ""}</div>
+            {currentYear && previousYear ? (
+              <table className="mt-2 w-full border-collapse text-sm">
+                <thead>
+                  <tr className="text-left">
+                    <th className="p-2 border border-slate-200 bg-slate-50">Métrica</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">{previousYear}</th>
+                    <th className="p-2 border border-slate-200 bg-slate-50 text-right">{currentYear}</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {comparisonRows.map((m) => {
+                    const hasData = (k: PeriodKpis) => k.hasJiraPeriodData && (!m.needsOrders || k.hasJanisPeriodData);
+                    const cur = hasData(current) ? m.value(current) : null;
+                    const prev = hasData(previous) ? m.value(previous) : null;
+                    return (
+                      <tr key={m.label}>
+                        <td className="p-2 border border-slate-200">{m.label}</td>
+                        <td className="p-2 border border-slate-200 text-right">
+                          {prev == null ? "—" : m.format(prev)}
+                        </td>
+                        <td
+                          className={
+                            "p-2 border border-slate-200 text-right " + metricPerformanceClass(cur, prev, m.direction)
+                          }
+                        >
+                          {cur == null ? "—" : m.format(cur)}
+                        </td>
+                      </tr>
+                    );
+                  })}
+                </tbody>
+              </table>
+            ) : (
+              <p className={"mt-2 " + UI.subtle}>Selecciona un rango de fechas válido para comparar.</p>
+            )}
+          </div>
+
+          <div>
+            <div className="text-sm font-semibold text-slate-700">Top asignados</div>
+            {scorecard.topAssignees.length ? (
+              <table className="mt-2 w-full border-collapse text-sm">
+                <tbody>
+                  {scorecard.topAssignees.map((a) => (
+                    <tr key={a.name}>
+                      <td className="p-2 border border-slate-200">{a.name}</td>
+                      <td className="p-2 border border-slate-200 text-right">{formatInt(a.tickets)}</td>
+                      <td className="p-2 border border-slate-200 text-right">
+                        {formatPct(pct(a.tickets, summary.total))}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
+            ) : (
+              <p className={"mt-2 " + UI.subtle}>Sin tickets en el período.</p>
+            )}
+          </div>
+        </div>
+
+        {scorecard.monthly.length ? (
+          <div className="mt-4 grid grid-cols-1 gap-4 md:grid-cols-2">
+            <div className="h-56">
+              <div className="text-sm font-semibold text-slate-700">Tickets por mes</div>
+              <ResponsiveContainer width="100%" height="90%">
+                <BarChart data={scorecard.monthly}>
+                  <CartesianGrid stroke={UI.grid} />
+                  <XAxis dataKey="month" tickFormatter={monthLabel as any} />
+                  <YAxis allowDecimals={false} />
+                  <Tooltip labelFormatter={(l) => monthLabel(String(l))} />
+                  <Bar dataKey="tickets" name="Tickets" fill={UI.primary} />
+                </BarChart>
+              </ResponsiveContainer>
+            </div>
+            <div className="h-56">
+              <div className="text-sm font-semibold text-slate-700">Tickets por 1.000 órdenes por mes</div>
+              <ResponsiveContainer width="100%" height="90%">
+                <LineChart data={scorecard.monthly}>
+                  <CartesianGrid stroke={UI.grid} />
+                  <XAxis dataKey="month" tickFormatter={monthLabel as any} />
+                  <YAxis />
+                  <Tooltip
+                    labelFormatter={(l) => monthLabel(String(l))}
+                    formatter={(v: any) => [v == null ? "—" : Number(v).toFixed(2), "Tickets por 1.000 órdenes"]}
+                  />
+                  <Line type="monotone" dataKey="per1k" stroke={UI.primary} strokeWidth={2} dot connectNulls />
+                </LineChart>
+              </ResponsiveContainer>
+            </div>
+          </div>
+        ) : null}
+      </CardContent>
+    </Card>
+  );
+}
+
+function buildTicketsPer1kByMonth(monthRows: Array<{ month: string; tickets: number; orders: number }>) {
+  return monthRows
+    .map((row) => {
+      const orders = Number(row.orders) || 0;
+      const tickets = Number(row.tickets) || 0;
+      if (orders <= 0) return null;
+      return {
+        month: row.month,
+        ticketsPer1k: (tickets / orders) * 1000,
+      };
+    })
     .filter(Boolean) as Array<{ month: string; ticketsPer1k: number }>;
 }
 
@@ -971,12 +4128,65 @@ export default function JiraExecutiveDashboard() {
   if (typeof window !== "undefined") runParserTestsOnce();
   const jiraFileInputRef = useRef<HTMLInputElement | null>(null);
   const janisFileInputRef = useRef<HTMLInputElement | null>(null);
+  const changelogFileInputRef = useRef<HTMLInputElement | null>(null);
 
   const [rows, setRows] = useState<Row[]>([]);
   const [janisRows, setJanisRows] = useState<JanisRow[]>([]);
+  // Changelog Jira opcional (no se persiste: se vuelve a cargar junto con el export)
+  const [changelog, setChangelog] = useState<{ fileName: string; byKey: Map<string, ChangelogEvent[]> } | null>(
+    null
+  );
   const [error, setError] = useState<string | null>(null);
   const [exporting, setExporting] = useState(false);
   const [showExecutiveReport, setShowExecutiveReport] = useState(false);
+  // Filtros de la vista antes de abrir el reporte de un cliente (para volver a ellos)
+  const [filtersBeforeClientReport, setFiltersBeforeClientReport] = useState<{
+    organization: string;
+    orgFilter: string[];
+    assigneeFilter: string;
+    statusFilter: string;
+    dimensionFilters: DimensionFilters;
+  } | null>(null);
+  const [timeZones, setTimeZones] = useState(loadTimeZoneSettings);
+  const [importIssues, setImportIssues] = useState<ImportIssue[]>([]);
+  const [showImportReport, setShowImportReport] = useState(false);
+  const [jiraImportMode, setJiraImportMode] = useState<"replace" | "append">("replace");
+  const ingestWorkerRef = useRef<Worker | null>(null);
+  const ingestMessageHandlerRef = useRef<(msg: IngestResponse) => void>(() => {});
+  const [ingestProgress, setIngestProgress] = useState<{
+    label: string;
+    phase: string;
+    done: number;
+    total: number;
+  } | null>(null);
+  const [pendingJiraImport, setPendingJiraImport] = useState<PendingJiraImport | null>(null);
+  const [mappingProfiles, setMappingProfiles] = useState(loadMappingProfiles);
+  const [orgAliases, setOrgAliases] = useState(loadOrgAliases);
+  const [showOrgAliases, setShowOrgAliases] = useState(false);
+  const [statusTaxonomy, setStatusTaxonomy] = useState(loadStatusTaxonomy);
+  const [showStatusTaxonomy, setShowStatusTaxonomy] = useState(false);
+  const [roster, setRoster] = useState(loadRoster);
+  const [absences, setAbsences] = useState(loadAbsences);
+  const [showRoster, setShowRoster] = useState(false);
+  const [businessCalendar, setBusinessCalendar] = useState(loadBusinessCalendar);
+  const [showBusinessCalendar, setShowBusinessCalendar] = useState(false);
+  const [guardCostModel, setGuardCostModel] = useState(loadGuardCostModel);
+  const [showGuardReport, setShowGuardReport] = useState(false);
+  const [showHdiExplorer, setShowHdiExplorer] = useState(false);
+  const [showBacklogAging, setShowBacklogAging] = useState(false);
+  const [showSnapshotHistory, setShowSnapshotHistory] = useState(false);
+  const [showChangelog, setShowChangelog] = useState(false);
+  const [scorecardOrg, setScorecardOrg] = useState<string | null>(null);
+  const [portfolioZThreshold, setPortfolioZThreshold] = useState(loadPortfolioZThreshold);
+  const [datasets, setDatasets] = useState<StoredDatasetMeta[]>([]);
+  const [snapshots, setSnapshots] = useState<Snapshot[]>([]);
+  const snapshotCacheRef = useRef(new Map<string, Snapshot>());
+  const [activeDatasetIds, setActiveDatasetIds] = useState<Record<DatasetKind, string | null>>({
+    jira: null,
+    janis: null,
+  });
+  const [showDatasets, setShowDatasets] = useState(false);
+  const [storageRestored, setStorageRestored] = useState(false);
 
   // Filters: rango por mes (YYYY-MM)
   const [fromMonth, setFromMonth] = useState<string>("all");
@@ -990,6 +4200,11 @@ export default function JiraExecutiveDashboard() {
   const [orgFilter, setOrgFilter] = useState<string[]>([]);
   const [assigneeFilter, setAssigneeFilter] = useState("all");
   const [statusFilter, setStatusFilter] = useState("all");
+  const [dimensionFilters, setDimensionFilters] = useState<DimensionFilters>(ALL_DIMENSION_FILTERS);
+  const [breakdownDimension, setBreakdownDimension] = useState<DimensionKey>("priority");
+  const [resolutionGroup, setResolutionGroup] = useState<"organization" | "asignado" | "priority">("organization");
+  const [slaRiskMarginHours, setSlaRiskMarginHours] = useState(loadSlaRiskMargin);
+  const [slackGroup, setSlackGroup] = useState<"month" | "organization">("month");
   const [language, setLanguage] = useState<"es" | "pt">("es");
 
   const executiveText =
@@ -1010,6 +4225,12 @@ export default function JiraExecutiveDashboard() {
           actionPlan: "Plano de Ação",
           performanceDesc: "Volume, velocidade e cumprimento de SLA para decisões de capacidade.",
           qualityDesc: "Acompanhamento de reaberturas e estabilidade do serviço para reduzir atrito.",
+          reopens: "Reaberturas entre snapshots",
+          reopenRate: "Taxa de reabertura (changelog)",
+          clientReport: "Relatório do cliente",
+          backToView: "Voltar à visão anterior",
+          noSnapshots:
+            "Sem changelog nem histórico de snapshots: importe o changelog Jira ou marque os exports com a data.",
           actionDesc: "Priorizar backlog, sustentar SLA e ajustar a capacidade da equipe.",
           insightsTitle: "Insights executivos",
         }
@@ -1029,197 +4250,583 @@ export default function JiraExecutiveDashboard() {
           actionPlan: "Plan de Acción",
           performanceDesc: "Volumen, velocidad y cumplimiento SLA para decisiones de capacidad.",
           qualityDesc: "Seguimiento de reaperturas y estabilidad del servicio para reducir fricción.",
+          reopens: "Reaperturas entre snapshots",
+          reopenRate: "Tasa de reapertura (changelog)",
+          clientReport: "Reporte de cliente",
+          backToView: "Volver a la vista anterior",
+          noSnapshots:
+            "Sin changelog ni historial de snapshots: importa el changelog Jira o etiqueta los exports con su fecha.",
           actionDesc: "Priorizar backlog, sostener SLA y ajustar capacidad del equipo.",
           insightsTitle: "Insights ejecutivos",
         };
 
-  const onFile = (file: File) => {
-    setError(null);
+  const showJiraRows = (nextRows: Row[]) => {
+    setRows(nextRows);
+    const bounds = monthBounds(nextRows.map((r) => r.month));
+    if (!bounds) return;
+    setAutoRange(bounds);
+    setFromMonth(bounds.minMonth);
+    setToMonth(bounds.maxMonth);
+  };
+
+  const showJanisRows = (nextRows: JanisRow[], hasJiraRows = rows.length > 0) => {
+    setJanisRows(nextRows);
+    const bounds = monthBounds(nextRows.map((r) => r.month));
+    if (hasJiraRows || !bounds) return;
+    setAutoRange(bounds);
+    setFromMonth(bounds.minMonth);
+    setToMonth(bounds.maxMonth);
+  };
+
+  // Avisos de persistencia: se suman al mensaje actual sin repetirse (p.ej. un guardado que falla en cada cambio)
+  const addWarning = (message: string) =>
+    setError((prev) => (prev && prev.includes(message) ? prev : [prev, message].filter(Boolean).join(" ")));
+
+  // `replaces`: dataset que se sobrescribe con el mismo id (merge), en vez de guardar una copia nueva
+  const persistDataset = async (
+    kind: DatasetKind,
+    fileName: string,
+    data: Row[] | JanisRow[],
+    replaces?: StoredDatasetMeta
+  ) => {
+    const meta: StoredDatasetMeta = {
+      ...replaces,
+      id: replaces ? replaces.id : newDatasetId(kind),
+      kind,
+      fileName,
+      importedAt: new Date().toISOString(),
+      rowCount: data.length,
+    };
+    try {
+      await saveDataset(meta, data);
+      // La foto compacta del historial de snapshots quedó desactualizada
+      if (replaces) snapshotCacheRef.current.delete(meta.id);
+      setActiveDatasetIds((prev) => ({ ...prev, [kind]: meta.id }));
+      setDatasets(await listDatasets());
+    } catch {
+      addWarning("Aviso: no se pudo guardar la importación en el navegador (se perderá al recargar).");
+    }
+  };
+
+  const activateDataset = async (meta: StoredDatasetMeta) => {
+    try {
+      const data = await loadDatasetRows(meta.id);
+      if (!data) {
+        setError(`No se encontraron las filas de "${meta.fileName}" en el almacenamiento local.`);
+        return;
+      }
+      if (meta.kind === "jira") showJiraRows(relocalizeRows(data as Row[], timeZones.display));
+      else showJanisRows(data as JanisRow[]);
+      // El reporte de importación corresponde al archivo anterior
+      setImportIssues((prev) => prev.filter((x) => x.source !== (meta.kind === "jira" ? "Jira" : "Janis")));
+      setActiveDatasetIds((prev) => ({ ...prev, [meta.kind]: meta.id }));
+      setError(null);
+    } catch (e: any) {
+      setError((e && e.message) || "No se pudo leer el almacenamiento local.");
+    }
+  };
+
+  const removeDataset = async (meta: StoredDatasetMeta) => {
+    try {
+      await deleteDataset(meta.id);
+      setDatasets(await listDatasets());
+      // Los datos en pantalla se mantienen, pero ya no se restauran al recargar
+      setActiveDatasetIds((prev) => (prev[meta.kind] === meta.id ? { ...prev, [meta.kind]: null } : prev));
+    } catch (e: any) {
+      setError((e && e.message) || "No se pudo eliminar el dataset.");
+    }
+  };
+
+  const setSnapshotDate = async (meta: StoredDatasetMeta, date: string | null) => {
+    const { snapshotDate: _previous, ...rest } = meta;
+    try {
+      await updateDatasetMeta(date ? { ...rest, snapshotDate: date } : rest);
+      setDatasets(await listDatasets());
+    } catch (e: any) {
+      setError((e && e.message) || "No se pudo guardar la fecha de snapshot.");
+    }
+  };
 
-    Papa.parse(file, {
-      transformHeader: (h) => String(h || "").trim().toLowerCase(),
-      header: true,
-      skipEmptyLines: true,
-      complete: (res: any) => {
+  // Fotos etiquetadas con fecha: se cargan una vez por dataset y se guardan compactas (key → estado)
+  useEffect(() => {
+    let cancelled = false;
+    const tagged = datasets.filter((d) => d.kind === "jira" && d.snapshotDate);
+    (async () => {
+      const next: Snapshot[] = [];
+      const unreadable: string[] = [];
+      for (const meta of tagged) {
+        const cached = snapshotCacheRef.current.get(meta.id);
+        if (cached) {
+          next.push({ ...cached, date: meta.snapshotDate! });
+          continue;
+        }
         try {
-          const data = (res.data || []).filter(Boolean);
-          const parsed: Row[] = [];
-          let badDate = 0;
-
-          for (const r of data) {
-            const creadaRaw = String(coalesce(r["creada"], "")).trim();
-            const creada = parseCreated(creadaRaw);
-            if (!creada) {
-              badDate += 1;
-              continue;
-            }
-
-            const slaRespRaw = getField(r, [
-              "campo personalizado (time to first response)",
-              "campo personalizado (time to first response).",
-              "custom field (time to first response)",
-              "custom field (time to first response).",
-              "time to first response",
-              "time to first response (hrs)",
-              "sla response",
-              "sla de response",
-            ]);
-            const slaResp = parseSlaHours(slaRespRaw);
-            const respStatus: Row["slaResponseStatus"] =
-              slaResp != null && slaResp < 0 ? "Incumplido" : "Cumplido";
-
-            const satRaw = getField(r, [
-              "calificación de satisfacción",
-              "calificacion de satisfaccion",
-              "satisfaction",
-            ]);
-            const satStr = satRaw == null ? "" : String(satRaw).trim();
-            const satVal = satStr === "" ? null : Number(satStr);
-            const sat = Number.isFinite(satVal as any) ? (satVal as number) : null;
-
-            const org = String(
-              coalesce(
-                getField(r, [
-                  "campo personalizado (organizations)",
-                  "organizations",
-                  "organization",
-                  "organisation",
-                ]),
-                ""
-              )
-            ).trim();
-
-            const estado = String(coalesce(r["estado"], "")).trim();
-            // Excluir Block/Hold
-            if (/\b(block|hold)\b/i.test(estado)) continue;
-
-            const linkedColumns = Object.keys(r).filter((k) => {
-              const key = String(k || "").toLowerCase();
-              return (
-                key.includes("actividades vinculadas") ||
-                key.includes("actividad vinculada") ||
-                key.includes("linked activit") ||
-                key.includes("enlace a la incidencia") ||
-                key.includes("enlace de incidencia")
-              );
-            });
+          const data = await loadDatasetRows<Row>(meta.id);
+          if (!data) continue;
+          const snap = toSnapshot(meta.id, meta.snapshotDate!, meta.fileName, data);
+          snapshotCacheRef.current.set(meta.id, snap);
+          next.push(snap);
+        } catch {
+          unreadable.push(meta.fileName);
+        }
+      }
+      if (cancelled) return;
+      setSnapshots(next);
+      if (unreadable.length) addWarning(`Aviso: no se pudieron leer los snapshots ${unreadable.join(", ")}.`);
+    })();
+    return () => {
+      cancelled = true;
+    };
+  }, [datasets]);
+
+  useEffect(() => {
+    let cancelled = false;
+    (async () => {
+      try {
+        const [list, session] = await Promise.all([listDatasets(), loadSession()]);
+        if (cancelled) return;
+        setDatasets(list);
+        if (!session) return;
+
+        const jiraMeta = list.find((d) => d.id === session.activeJiraId);
+        const janisMeta = list.find((d) => d.id === session.activeJanisId);
+        const [jiraData, janisData] = await Promise.all([
+          jiraMeta ? loadDatasetRows<Row>(jiraMeta.id) : null,
+          janisMeta ? loadDatasetRows<JanisRow>(janisMeta.id) : null,
+        ]);
+        if (cancelled) return;
+
+        const restored: string[] = [];
+        if (jiraMeta && jiraData) {
+          showJiraRows(relocalizeRows(jiraData, timeZones.display));
+          restored.push(`${jiraMeta.fileName} (${formatInt(jiraData.length)} filas)`);
+        }
+        if (janisMeta && janisData) {
+          showJanisRows(janisData, !!jiraData?.length);
+          restored.push(`${janisMeta.fileName} (${formatInt(janisData.length)} filas)`);
+        }
+        setActiveDatasetIds({
+          jira: jiraData ? session.activeJiraId : null,
+          janis: janisData ? session.activeJanisId : null,
+        });
+        if (restored.length) {
+          setFromMonth(session.fromMonth);
+          setToMonth(session.toMonth);
+          // Sesiones guardadas por versiones con el bug de "Limpiar" traen "all" en vez de una lista
+          setOrgFilter(Array.isArray(session.orgFilter) ? session.orgFilter : []);
+          setAssigneeFilter(session.assigneeFilter);
+          setStatusFilter(session.statusFilter);
+          setDimensionFilters({ ...ALL_DIMENSION_FILTERS, ...session.dimensionFilters });
+          setError(`Datos restaurados: ${restored.join(" · ")}.`);
+        }
+      } catch {
+        // Sin IndexedDB (p.ej. modo privado) el dashboard sigue funcionando sin persistencia
+        if (!cancelled) addWarning("Aviso: no se pudo leer el almacenamiento local del navegador.");
+      } finally {
+        if (!cancelled) setStorageRestored(true);
+      }
+    })();
+    return () => {
+      cancelled = true;
+    };
+    // Solo al montar: la zona de visualización inicial ya viene de localStorage
+  }, []);
+
+  useEffect(() => {
+    if (!storageRestored) return;
+    saveSession({
+      activeJiraId: activeDatasetIds.jira,
+      activeJanisId: activeDatasetIds.janis,
+      fromMonth,
+      toMonth,
+      orgFilter,
+      assigneeFilter,
+      statusFilter,
+      dimensionFilters,
+    }).catch(() => addWarning("Aviso: no se pudieron guardar los filtros en el navegador."));
+  }, [
+    storageRestored,
+    activeDatasetIds,
+    fromMonth,
+    toMonth,
+    orgFilter,
+    assigneeFilter,
+    statusFilter,
+    dimensionFilters,
+  ]);
+
+  const ingestJiraRows = (result: JiraBuildResult, fileName: string, sourceNote?: string) => {
+    const { parsed, badDate, badDateSamples, dateFormats } = result;
+    const appending = jiraImportMode === "append" && rows.length > 0;
+    setImportIssues((prev) => [
+      ...(appending ? prev : prev.filter((x) => x.source !== "Jira")),
+      ...result.issues.map((x) => ({ ...x, source: "Jira" as const, file: fileName })),
+    ]);
+    try {
+      if (!parsed.length) {
+        if (jiraImportMode !== "append") setRows([]);
+        setError(
+          "No pude parsear filas con fecha 'Creada'. Revisa el mapeo de la columna 'Creada' y que el formato sea tipo 19/ene/26 12:47 PM, 19/jan/26 12:47 o ISO-8601." +
+            (badDateSamples.length ? ` Ejemplos: ${badDateSamples.map((x) => `"${x}"`).join(", ")}.` : "")
+        );
+        return;
+      }
 
-            const linkedMatches = linkedColumns.flatMap((col) => {
-              const raw = String(coalesce(r[col], "")).trim();
-              if (!raw) return [] as string[];
-              const matches = raw.match(/\bHDI-\d+\b/gi);
-              return matches ? matches : [];
-            });
+      const notes: string[] = [];
+      let nextRows: Row[];
+      if (appending) {
+        const merge = mergeJiraRows(rows, parsed);
+        nextRows = merge.rows;
+        notes.push(
+          `Merge: ${formatInt(merge.added)} filas agregadas, ${formatInt(merge.updated)} actualizadas, ${formatInt(
+            merge.duplicated
+          )} duplicadas (total ${formatInt(nextRows.length)}).`
+        );
+      } else {
+        nextRows = [...parsed].sort((a, b) => a.creada.getTime() - b.creada.getTime());
+      }
+      showJiraRows(nextRows);
+      const activeJira = appending ? datasets.find((d) => d.id === activeDatasetIds.jira) : undefined;
+      void persistDataset(
+        "jira",
+        activeJira ? `${activeJira.fileName} + ${fileName}` : fileName,
+        nextRows,
+        activeJira
+      );
 
-            const linkedKeys = Array.from(
-              new Set(linkedMatches.map((x) => String(x).toUpperCase().trim()).filter(Boolean))
-            );
+      if (sourceNote) notes.push(sourceNote);
+      notes.push(`Formato de fecha detectado: ${describeDateFormats(dateFormats)}.`);
+      if (badDate > 0) {
+        notes.push(
+          `Aviso: ${badDate} filas fueron omitidas porque la fecha 'Creada' no era interpretable` +
+            (badDateSamples.length ? ` (ej: ${badDateSamples.map((x) => `"${x}"`).join(", ")}).` : ".")
+        );
+      }
+      // Filas distintas con ajustes (una fila puede tener varios avisos); las omitidas ya se contaron arriba
+      const omittedLines = new Set(result.issues.filter((x) => x.action === "omitida").map((x) => x.line));
+      const otherIssues = new Set(result.issues.filter((x) => !omittedLines.has(x.line)).map((x) => x.line)).size;
+      if (otherIssues > 0) {
+        notes.push(`${formatInt(otherIssues)} filas adicionales fueron ajustadas (ver reporte de importación).`);
+      }
+      if (notes.length) setError(notes.join(" "));
+    } catch (e: any) {
+      setError((e && e.message) || "Error procesando el CSV");
+      setRows([]);
+    }
+  };
 
-            parsed.push({
-              key: String(coalesce(r["clave de incidencia"], coalesce(r["key"], ""))).trim(),
-              organization: org,
-              estado,
-              asignado: String(coalesce(r["persona asignada"], "")).trim(),
-              linkedKeys,
-              creada,
-              year: creada.getFullYear(),
-              month: ym(creada),
-              slaResponseHours: slaResp,
-              slaResponseStatus: respStatus,
-              satisfaction: sat,
-            });
-          }
+  const stopIngestWorker = () => {
+    ingestWorkerRef.current?.terminate();
+    ingestWorkerRef.current = null;
+    setIngestProgress(null);
+  };
 
-          if (!parsed.length) {
-            setRows([]);
-            setError(
-              "No pude parsear filas con fecha 'Creada'. Revisa que el CSV tenga columna 'Creada' y formato tipo 19/ene/26 12:47 PM."
-            );
-            return;
-          }
+  const runIngestWorker = (label: string, request: IngestRequest) => {
+    ingestWorkerRef.current?.terminate();
+    const worker = new Worker(new URL("./ingest.worker.ts", import.meta.url), { type: "module" });
+    worker.onmessage = (e: MessageEvent<IngestResponse>) => ingestMessageHandlerRef.current(e.data);
+    worker.onerror = (e) => {
+      stopIngestWorker();
+      setError(e.message || "Error en el worker de importación");
+    };
+    ingestWorkerRef.current = worker;
+    setIngestProgress({ label, phase: "Lectura", done: 0, total: 0 });
+    worker.postMessage(request);
+  };
 
-          parsed.sort((a, b) => a.creada.getTime() - b.creada.getTime());
-          setRows(parsed);
+  const applyJiraMapping = (mapping: JiraColumnMapping, note?: string) => {
+    const worker = ingestWorkerRef.current;
+    if (!worker) return;
+    setIngestProgress((prev) => ({ label: prev?.label || "Jira", phase: "Normalización", done: 0, total: 0 }));
+    worker.postMessage({ type: "jira-apply-mapping", mapping, timeZones, note } satisfies IngestRequest);
+  };
 
-          const minMonth = parsed[0].month;
-          const maxMonth = parsed[parsed.length - 1].month;
-          setAutoRange({ minMonth, maxMonth });
-          setFromMonth(minMonth);
-          setToMonth(maxMonth);
+  const handleIngestMessage = (msg: IngestResponse) => {
+    switch (msg.type) {
+      case "progress":
+        setIngestProgress((prev) => (prev ? { ...prev, phase: msg.phase, done: msg.done, total: msg.total } : prev));
+        break;
+
+      case "jira-headers": {
+        const signature = headerSignature(msg.headers);
+        const profile = mappingProfiles.find((p) => p.headerSignature === signature);
+        if (profile) {
+          applyJiraMapping(
+            mappingForHeaders(profile.mapping, msg.headers),
+            `Perfil de mapeo "${profile.name}" aplicado automáticamente.`
+          );
+          return;
+        }
+        // El worker queda vivo con los registros hasta que se aplique o cancele el mapeo
+        setIngestProgress(null);
+        setPendingJiraImport({
+          fileName: msg.fileName,
+          headers: msg.headers,
+          sample: msg.sample,
+          rowCount: msg.rowCount,
+          mapping: detectColumnMapping(msg.headers),
+        });
+        break;
+      }
 
-          if (badDate > 0) {
-            setError(`Aviso: ${badDate} filas fueron omitidas porque la fecha 'Creada' no era interpretable.`);
-          }
-        } catch (e: any) {
-          setError((e && e.message) || "Error procesando el CSV");
-          setRows([]);
+      case "jira-rows":
+        stopIngestWorker();
+        if (msg.issueCount === 0) {
+          setError("El JSON no contiene 'issues'. Usa la respuesta del endpoint REST /search de Jira.");
+          return;
         }
-      },
-      error: (err: any) => {
-        setError(err.message);
-        setRows([]);
-      },
-    });
+        ingestJiraRows(
+          msg.result,
+          msg.fileName,
+          msg.issueCount != null ? `JSON: ${formatInt(msg.issueCount)} issues leídos.` : msg.note
+        );
+        break;
+
+      case "janis-rows":
+        stopIngestWorker();
+        ingestJanisRows(msg.parsed, msg.issues, msg.fileName);
+        break;
+
+      case "error":
+        stopIngestWorker();
+        setPendingJiraImport(null);
+        setError(msg.message);
+        break;
+    }
   };
 
-  const onJanisFile = (file: File) => {
+  useEffect(() => {
+    ingestMessageHandlerRef.current = handleIngestMessage;
+  });
+
+  useEffect(() => () => ingestWorkerRef.current?.terminate(), []);
+
+  const onFile = (file: File) => {
     setError(null);
-    Papa.parse(file, {
-      header: true,
-      skipEmptyLines: true,
-      complete: (res: any) => {
-        try {
-          const parsed: JanisRow[] = [];
-          for (const raw of res.data || []) {
-            const clientCode = String(coalesce(raw?.clientCode, "")).trim();
-            const monthNum = Number(String(coalesce(raw?.month, "")).trim());
-            const yearNum = Number(String(coalesce(raw?.year, "")).trim());
-            const totalOrdersNum = Number(String(coalesce(raw?.totalOrders, "")).trim());
-
-            if (!clientCode || !Number.isFinite(monthNum) || !Number.isFinite(yearNum) || !Number.isFinite(totalOrdersNum)) {
-              continue;
-            }
-            if (monthNum < 1 || monthNum > 12) continue;
-
-            const month = `${yearNum}-${String(monthNum).padStart(2, "0")}`;
-            parsed.push({
-              clientCode,
-              month,
-              year: yearNum,
-              totalOrders: totalOrdersNum,
-            });
-          }
+    setPendingJiraImport(null);
 
-          setJanisRows(parsed);
-          if (!rows.length && parsed.length) {
-            const months = Array.from(new Set(parsed.map((r) => r.month))).sort();
-            const minMonth = months[0];
-            const maxMonth = months[months.length - 1];
-            setAutoRange({ minMonth, maxMonth });
-            setFromMonth(minMonth);
-            setToMonth(maxMonth);
-          }
-        } catch (e: any) {
-          setError((e && e.message) || "Error procesando Janis Data");
-          setJanisRows([]);
+    if (/\.json$/i.test(file.name) || file.type === "application/json") {
+      runIngestWorker(`Jira · ${file.name}`, { type: "jira-json", file, timeZones });
+      return;
+    }
+    runIngestWorker(`Jira · ${file.name}`, { type: "jira-csv", file });
+  };
+
+  const updateTimeZones = (next: TimeZoneSettings) => {
+    setTimeZones(next);
+    storeJson(TIME_ZONE_STORAGE_KEY, next);
+    if (next.display === timeZones.display || !rows.length) return;
+
+    showJiraRows(relocalizeRows(rows, next.display));
+  };
+
+  const saveMappingProfile = (name: string) => {
+    if (!pendingJiraImport) return;
+    const profile: MappingProfile = {
+      name,
+      headerSignature: headerSignature(pendingJiraImport.headers),
+      mapping: pendingJiraImport.mapping,
+      updatedAt: new Date().toISOString(),
+    };
+    const next = [...mappingProfiles.filter((p) => p.name !== name), profile].sort((a, b) =>
+      a.name.localeCompare(b.name)
+    );
+    setMappingProfiles(next);
+    storeJson(MAPPING_PROFILES_STORAGE_KEY, next);
+  };
+
+  const deleteMappingProfile = (name: string) => {
+    const next = mappingProfiles.filter((p) => p.name !== name);
+    setMappingProfiles(next);
+    storeJson(MAPPING_PROFILES_STORAGE_KEY, next);
+  };
+
+  const updateStatusTaxonomy = (next: StatusTaxonomy) => {
+    setStatusTaxonomy(next);
+    storeJson(STATUS_TAXONOMY_STORAGE_KEY, next);
+  };
+
+  const updateRoster = (next: StaffAgent[]) => {
+    setRoster(next);
+    storeJson(ROSTER_STORAGE_KEY, next);
+  };
+
+  const updateGuardCostModel = (next: GuardCostModel) => {
+    setGuardCostModel(next);
+    storeJson(GUARD_COST_STORAGE_KEY, next);
+  };
+
+  const updateBusinessCalendar = (next: BusinessCalendar) => {
+    setBusinessCalendar(next);
+    storeJson(BUSINESS_CALENDAR_STORAGE_KEY, next);
+  };
+
+  const importHolidayCalendar = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const { holidays, skipped } = parseHolidayFile(file.name, text);
+        if (!holidays.length) {
+          setError(
+            "El archivo de feriados no tiene fechas válidas (ICS con VEVENT o CSV con columnas fecha, nombre)."
+          );
+          return;
         }
-      },
-      error: (err: any) => {
-        setError(err.message);
-        setJanisRows([]);
-      },
-    });
+        updateBusinessCalendar({
+          ...businessCalendar,
+          calendars: [
+            ...businessCalendar.calendars,
+            { id: newCalendarId(), name: file.name.replace(/\.(ics|csv)$/i, ""), enabled: true, holidays },
+          ],
+        });
+        setError(
+          `Feriados importados: ${formatInt(holidays.length)}` +
+            (skipped ? ` (${formatInt(skipped)} entradas omitidas por fecha inválida).` : ".")
+        );
+      })
+      .catch((e) => setError((e && e.message) || "No se pudo leer el archivo de feriados."));
+  };
+
+  const updateAbsences = (next: StaffAbsence[]) => {
+    const sorted = [...next].sort((a, b) => b.from.localeCompare(a.from) || a.agentName.localeCompare(b.agentName));
+    setAbsences(sorted);
+    storeJson(ABSENCES_STORAGE_KEY, sorted);
+  };
+
+  const importRoster = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const { agents, skipped } = parseRosterCsv(text);
+        if (!agents.length) {
+          setError("El CSV de dotación no tiene filas válidas (columnas esperadas: nombre, inicio, fin, fte).");
+          return;
+        }
+        updateRoster(agents);
+        setError(
+          `Dotación importada: ${formatInt(agents.length)} agentes` +
+            (skipped ? ` (${formatInt(skipped)} filas omitidas por fechas o FTE inválidos).` : ".")
+        );
+      })
+      .catch((e) => setError((e && e.message) || "No se pudo leer el CSV de dotación."));
+  };
+
+  const updateOrgAliases = (next: OrgAlias[]) => {
+    const deduped = dedupeOrgAliases(next);
+    setOrgAliases(deduped);
+    storeJson(ORG_ALIASES_STORAGE_KEY, deduped);
+  };
+
+  const importOrgAliases = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const { aliases, skipped } = parseOrgAliasCsv(text);
+        if (!aliases.length) {
+          setError("El CSV de alias no tiene filas válidas (columnas esperadas: jira_organization, client_code).");
+          return;
+        }
+        updateOrgAliases(aliases);
+        setError(
+          `Alias importados: ${formatInt(aliases.length)}` +
+            (skipped ? ` (${formatInt(skipped)} filas omitidas por valores vacíos).` : ".")
+        );
+      })
+      .catch((e) => setError((e && e.message) || "No se pudo leer el CSV de alias."));
+  };
+
+  const ingestJanisRows = (parsed: JanisRow[], issues: RowIssue[], fileName: string) => {
+    showJanisRows(parsed);
+    if (parsed.length) void persistDataset("janis", fileName, parsed);
+    setImportIssues((prev) => [
+      ...prev.filter((x) => x.source !== "Janis"),
+      ...issues.map((x) => ({ ...x, source: "Janis" as const, file: fileName })),
+    ]);
+    const skipped = issues.filter((x) => x.action === "omitida").length;
+    if (skipped > 0) {
+      setError(`Aviso: ${formatInt(skipped)} filas de Janis Data fueron omitidas. Revisa el reporte de importación.`);
+    }
+  };
+
+  const onChangelogFile = (file: File) => {
+    file
+      .text()
+      .then((text) => {
+        const { events, skipped } = parseChangelogCsv(text, timeZones.source);
+        if (!events.length) {
+          setError("El changelog no tiene transiciones válidas (columnas key, desde, hacia, fecha).");
+          return;
+        }
+        const byKey = groupChangelogByKey(events);
+        setChangelog({ fileName: file.name, byKey });
+        const matched = rows.filter((r) => r.key && byKey.has(r.key)).length;
+        setError(
+          `Changelog importado: ${formatInt(events.length)} transiciones de ${formatInt(byKey.size)} tickets` +
+            ` (${formatInt(matched)} cruzan con el export Jira)` +
+            (skipped ? `; ${formatInt(skipped)} filas omitidas por key, estado o fecha inválidos.` : ".")
+        );
+      })
+      .catch((e) => setError((e && e.message) || "No se pudo leer el changelog."));
+  };
+
+  const onJanisFile = (file: File) => {
+    setError(null);
+    runIngestWorker(`Janis · ${file.name}`, { type: "janis-csv", file });
   };
 
+  const orgKey = useMemo(() => buildOrgKeyResolver(orgAliases), [orgAliases]);
+
+  const statusCategoryOf = useMemo(
+    () => (estado: string) => statusCategory(estado, statusTaxonomy),
+    [statusTaxonomy]
+  );
+
+  // Horario Normal vs Guardia y días hábiles según el calendario configurado
+  const { isNormalSchedule, isWorkingDate } = useMemo(() => {
+    const holidays = holidayDates(businessCalendar);
+    return {
+      isNormalSchedule: (r: Row) => isNormalScheduleIn(r, businessCalendar.schedule, holidays),
+      isWorkingDate: (date: string, weekday: number) =>
+        isWorkingDay(date, weekday, businessCalendar.schedule, holidays),
+    };
+  }, [businessCalendar]);
+
+  const teamSizeOf = useMemo(() => (month: string) => teamSizeForMonth(roster, month), [roster]);
+  const availableDaysOf = useMemo(
+    () => (month: string) => availableDaysForMonth(roster, absences, month, isWorkingDate),
+    [roster, absences, isWorkingDate]
+  );
+
+  // Filas que cuentan para KPIs (sin estados excluidos)
+  const includedRows = useMemo(
+    () => rows.filter((r) => statusCategoryOf(r.estado) !== "excluded"),
+    [rows, statusCategoryOf]
+  );
+
+  const orgMatchReport = useMemo(
+    () => buildOrgMatchReport(rows, janisRows, orgKey),
+    [rows, janisRows, orgKey]
+  );
+
   const filterOptions = useMemo(() => {
-    const orgs = Array.from(
-      new Set([...rows.map((r) => r.organization), ...janisRows.map((r) => r.clientCode)].filter(Boolean))
-    ).sort();
+    // Una opción por organización canónica (el client code de Janis tiene prioridad como etiqueta)
+    const orgLabels = new Map<string, string>();
+    janisRows.forEach((r) => r.clientCode && orgLabels.set(orgKey(r.clientCode), r.clientCode));
+    rows.forEach((r) => {
+      if (r.organization && !orgLabels.has(orgKey(r.organization))) orgLabels.set(orgKey(r.organization), r.organization);
+    });
+    const orgs = Array.from(new Set(orgLabels.values())).sort();
     const assignees = Array.from(new Set(rows.map((r) => r.asignado).filter(Boolean))).sort();
-    const estados = Array.from(new Set(rows.map((r) => r.estado).filter(Boolean))).sort();
+    const estados = Array.from(new Set(includedRows.map((r) => r.estado).filter(Boolean))).sort();
     const months = Array.from(new Set([...rows.map((r) => r.month), ...janisRows.map((r) => r.month)])).sort();
-    return { orgs, assignees, estados, months };
-  }, [rows, janisRows]);
+    const dimensions = Object.fromEntries(
+      ROW_DIMENSIONS.map(({ key }) => [
+        key,
+        Array.from(new Set(includedRows.flatMap((r) => rowDimensionValues(r, key)))).sort(),
+      ])
+    ) as Record<DimensionKey, string[]>;
+    return { orgs, assignees, estados, months, dimensions };
+  }, [rows, includedRows, janisRows, orgKey]);
 
   const minMonthBound =
     autoRange.minMonth ?? (filterOptions.months.length ? filterOptions.months[0] : undefined);
@@ -1242,19 +4849,30 @@ export default function JiraExecutiveDashboard() {
   }, [rows, janisRows]);
 
   const orgMatches = (candidate: string) =>
-    orgFilter.length === 0 || orgFilter.some((o) => normalizeOrgKey(candidate) === normalizeOrgKey(o));
+    orgFilter.length === 0 || orgFilter.some((o) => orgKey(candidate) === orgKey(o));
 
   const filtered = useMemo(() => {
-    return rows.filter((r) => {
+    return includedRows.filter((r) => {
       if (fromMonth !== "all" && r.month < fromMonth) return false;
       if (toMonth !== "all" && r.month > toMonth) return false;
       if (overlapRange && (r.month < overlapRange.start || r.month > overlapRange.end)) return false;
       if (!orgMatches(r.organization)) return false;
       if (assigneeFilter !== "all" && r.asignado !== assigneeFilter) return false;
       if (statusFilter !== "all" && r.estado !== statusFilter) return false;
+      if (!matchesDimensionFilters(r, dimensionFilters)) return false;
       return true;
     });
-  }, [rows, fromMonth, toMonth, overlapRange, assigneeFilter, statusFilter, orgFilter]);
+  }, [
+    includedRows,
+    fromMonth,
+    toMonth,
+    overlapRange,
+    assigneeFilter,
+    statusFilter,
+    dimensionFilters,
+    orgFilter,
+    orgKey,
+  ]);
 
   const janisFiltered = useMemo(() => {
     return janisRows.filter((r) => {
@@ -1264,7 +4882,7 @@ export default function JiraExecutiveDashboard() {
       if (!orgMatches(r.clientCode)) return false;
       return true;
     });
-  }, [janisRows, fromMonth, toMonth, overlapRange, orgFilter]);
+  }, [janisRows, fromMonth, toMonth, overlapRange, orgFilter, orgKey]);
 
   const comparisonPeriods = useMemo(() => {
     const filterStart = fromMonth === "all" ? autoRange.minMonth || null : fromMonth;
@@ -1288,15 +4906,17 @@ export default function JiraExecutiveDashboard() {
     const previousEnd = comparisonPeriods.comparisonPreviousPeriod.end;
     if (previousStart && previousEnd) {
       const prevTickets = filterRowsForPeriod(
-        rows,
+        includedRows,
         previousStart,
         previousEnd,
         orgFilter,
         assigneeFilter,
-        statusFilter
+        statusFilter,
+        dimensionFilters,
+        orgKey
       ).length;
 
-      const prevOrders = filterJanisRowsForPeriod(janisRows, previousStart, previousEnd, orgFilter).reduce(
+      const prevOrders = filterJanisRowsForPeriod(janisRows, previousStart, previousEnd, orgFilter, orgKey).reduce(
         (acc, row) => acc + row.totalOrders,
         0
       );
@@ -1313,11 +4933,23 @@ export default function JiraExecutiveDashboard() {
       ordersPerTicketRounded: filtered.length > 0 ? Math.round(totalOrders / filtered.length) : null,
       yoyPct,
     };
-  }, [janisFiltered, filtered, rows, janisRows, comparisonPeriods, assigneeFilter, statusFilter, orgFilter]);
+  }, [
+    janisFiltered,
+    filtered,
+    includedRows,
+    janisRows,
+    comparisonPeriods,
+    assigneeFilter,
+    statusFilter,
+    dimensionFilters,
+    orgFilter,
+    orgKey,
+  ]);
 
   const kpis = useMemo(() => {
     const total = filtered.length;
     const respInc = filtered.filter((r) => r.slaResponseStatus === "Incumplido").length;
+    const resolInc = filtered.filter((r) => r.slaResolutionStatus === "Incumplido").length;
 
     const rated = filtered.filter((r) => r.satisfaction != null);
     const csatAvg =
@@ -1325,39 +4957,33 @@ export default function JiraExecutiveDashboard() {
         ? rated.reduce((s, r) => s + (r.satisfaction == null ? 0 : r.satisfaction), 0) / rated.length
         : null;
 
-    const isNormalSchedule = (d: Date) => {
-      const day = d.getDay(); // 0=dom, 6=sáb
-      const hour = d.getHours();
-      const isWeekday = day >= 1 && day <= 5;
-      return isWeekday && hour >= 6 && hour < 23;
-    };
-
-    const totalNormal = filtered.filter((r) => isNormalSchedule(r.creada)).length;
+    const totalNormal = filtered.filter((r) => isNormalSchedule(r)).length;
     const totalGuard = total - totalNormal;
 
-    const firstSeenByLinkedKey = new Map<string, Date>();
+    const firstSeenByLinkedKey = new Map<string, Row>();
     filtered.forEach((r) => {
       (r.linkedKeys || []).forEach((k) => {
-        if (!firstSeenByLinkedKey.has(k)) firstSeenByLinkedKey.set(k, r.creada);
+        if (!firstSeenByLinkedKey.has(k)) firstSeenByLinkedKey.set(k, r);
       });
     });
 
     const uniqueLinkedKeys = Array.from(firstSeenByLinkedKey.keys());
     const linkedNormal = uniqueLinkedKeys.filter((k) => {
-      const d = firstSeenByLinkedKey.get(k);
-      return d ? isNormalSchedule(d) : false;
+      const first = firstSeenByLinkedKey.get(k);
+      return first ? isNormalSchedule(first) : false;
     }).length;
     const linkedGuard = uniqueLinkedKeys.length - linkedNormal;
 
     // Tickets/Persona: Promedio últimos 6 meses (sin considerar mes actual si no está cerrado)
     const monthsSorted = Array.from(new Set(filtered.map((r) => r.month))).sort();
     const maxCreated = filtered.length ? filtered[filtered.length - 1].creada : null;
-    const currentMonth = maxCreated ? ym(maxCreated) : null;
+    const currentMonth = maxCreated ? ym(maxCreated, timeZones.display) : null;
 
     const isClosedMonth = (d: Date | null) => {
       if (!d) return true;
-      const lastDay = new Date(d.getFullYear(), d.getMonth() + 1, 0).getDate();
-      return d.getDate() === lastDay;
+      const p = zonedParts(d, timeZones.display);
+      const lastDay = new Date(p.year, p.month, 0).getDate();
+      return p.day === lastDay;
     };
 
     const monthsForAvg = (() => {
@@ -1370,7 +4996,7 @@ export default function JiraExecutiveDashboard() {
     const last6 = monthsForAvg.slice(-6);
     const tppByMonth = last6
       .map((m) => {
-        const ts = teamSizeForMonth(m);
+        const ts = teamSizeOf(m);
         if (!ts) return null;
         const tickets = filtered.filter((r) => r.month === m).length;
         return { month: m, tickets, team: ts, tpp: tickets / ts };
@@ -1380,6 +5006,11 @@ export default function JiraExecutiveDashboard() {
     const tpp6m =
       tppByMonth.length > 0 ? tppByMonth.reduce((s, x) => s + x.tpp, 0) / tppByMonth.length : null;
 
+    // Mismos meses que Tickets/Persona, pero sobre días-agente hábiles disponibles (descuenta ausencias)
+    const availableDays6m = last6.reduce((s, m) => s + availableDaysOf(m), 0);
+    const ticketsLast6 = filtered.filter((r) => last6.includes(r.month)).length;
+    const ticketsPerAvailableDay = availableDays6m > 0 ? ticketsLast6 / availableDays6m : null;
+
     const tppHealth = (() => {
       if (tpp6m == null) return { label: "Sin dato", color: "#94a3b8" };
       if (tpp6m < 40) return { label: "Con Capacidad", color: UI.primary };
@@ -1397,56 +5028,295 @@ export default function JiraExecutiveDashboard() {
       linkedGuard,
       respInc,
       respOkPct: 100 - pct(respInc, total),
+      resolInc,
+      resolOkPct: 100 - pct(resolInc, total),
       csatAvg,
       csatCoverage: pct(rated.length, total),
       tpp6m,
       tppHealth,
+      availableDays6m,
+      ticketsPerAvailableDay,
+    };
+  }, [filtered, timeZones.display, teamSizeOf, availableDaysOf, isNormalSchedule]);
+
+  // Carga por asignado del período filtrado vs. sus días-agente disponibles (roster + ausencias)
+  const assigneeWorkload = useMemo(() => {
+    const months = Array.from(new Set(filtered.map((r) => r.month))).sort();
+    const first = months.length ? monthRange(months[0]) : null;
+    const last = months.length ? monthRange(months[months.length - 1]) : null;
+    const agentsByKey = new Map(roster.map((a) => [agentKey(a.name), a]));
+
+    const tickets = new Map<string, number>();
+    filtered.forEach((r) => {
+      const name = r.asignado || "(Sin asignar)";
+      tickets.set(name, (tickets.get(name) || 0) + 1);
+    });
+
+    return Array.from(tickets.entries())
+      .map(([name, count]) => {
+        const agent = agentsByKey.get(agentKey(name));
+        const availableDays =
+          agent && first && last ? availableAgentDays(agent, absences, first.from, last.to, isWorkingDate) : null;
+        return {
+          name,
+          tickets: count,
+          availableDays,
+          perDay: availableDays ? count / availableDays : null,
+        };
+      })
+      .sort((a, b) => b.tickets - a.tickets || a.name.localeCompare(b.name));
+  }, [filtered, roster, absences, isWorkingDate]);
+
+  // Antigüedad del backlog de la vista a la fecha del export (dataset completo, no solo la vista)
+  const backlogAging = useMemo(() => {
+    const asOf = exportDateOf(rows);
+    if (!asOf) return null;
+    return {
+      asOfDate: localDateFields(asOf, timeZones.display).date,
+      aging: buildBacklogAging(filtered, statusCategoryOf, asOf),
+    };
+  }, [rows, filtered, statusCategoryOf, timeZones.display]);
+
+  // Historial entre snapshots etiquetados, acotado a las organizaciones filtradas
+  const snapshotHistory = useMemo(() => {
+    const scoped =
+      orgFilter.length === 0
+        ? snapshots
+        : snapshots.map((snap) => ({
+            ...snap,
+            tickets: new Map(Array.from(snap.tickets).filter(([, t]) => orgMatches(t.organization))),
+          }));
+    return buildSnapshotHistory(scoped, statusCategoryOf);
+  }, [snapshots, statusCategoryOf, orgFilter, orgKey]);
+
+  // Reaperturas, tiempo en estado y ping-pong desde el changelog (tickets de la vista)
+  const changelogMetrics = useMemo(() => {
+    const asOf = exportDateOf(rows);
+    if (!changelog || !asOf) return null;
+    return buildChangelogMetrics(filtered, changelog.byKey, statusCategoryOf, asOf);
+  }, [changelog, rows, filtered, statusCategoryOf]);
+
+  // Tiempo de resolución (mediana / p90) global, por mes de creación y por organización/asignado/prioridad
+  const resolutionMetrics = useMemo(() => {
+    const withHours = filtered
+      .map((r) => ({ r, h: resolutionHours(r, statusCategoryOf) }))
+      .filter((x): x is { r: Row; h: number } => x.h != null);
+
+    const stats = (hours: number[]) => ({
+      resolved: hours.length,
+      median: percentile(hours, 50),
+      p90: percentile(hours, 90),
+    });
+    const groupBy = (keyOf: (r: Row) => string) => {
+      const m = new Map<string, number[]>();
+      withHours.forEach(({ r, h }) => {
+        const k = keyOf(r);
+        const list = m.get(k);
+        if (list) list.push(h);
+        else m.set(k, [h]);
+      });
+      return Array.from(m.entries()).map(([name, hours]) => ({ name, ...stats(hours) }));
+    };
+
+    return {
+      overall: stats(withHours.map((x) => x.h)),
+      trend: groupBy((r) => r.month)
+        .map(({ name, ...rest }) => ({ month: name, ...rest }))
+        .sort((a, b) => a.month.localeCompare(b.month)),
+      groups: {
+        organization: groupBy((r) => r.organization || "(Sin organización)"),
+        asignado: groupBy((r) => r.asignado || "(Sin asignar)"),
+        priority: groupBy((r) => r.priority || "(Sin prioridad)"),
+      },
+    };
+  }, [filtered, statusCategoryOf]);
+
+  // Distribución de holgura del SLA Response (solo tickets con valor de SLA)
+  const firstResponseMetrics = useMemo(() => {
+    const withSla = filtered.filter((r) => r.slaResponseHours != null);
+    const hoursOf = (subset: Row[]) => subset.map((r) => r.slaResponseHours as number);
+
+    const histogram = SLA_SLACK_BUCKETS.map((b) => ({
+      ...b,
+      tickets: withSla.filter((r) => (r.slaResponseHours as number) >= b.min && (r.slaResponseHours as number) < b.max)
+        .length,
+    }));
+
+    const groupBy = (keyOf: (r: Row) => string) => {
+      const m = new Map<string, Row[]>();
+      withSla.forEach((r) => {
+        const k = keyOf(r);
+        const list = m.get(k);
+        if (list) list.push(r);
+        else m.set(k, [r]);
+      });
+      return Array.from(m.entries()).map(([name, subset]) => ({
+        name,
+        ...slackStats(hoursOf(subset), slaRiskMarginHours),
+      }));
     };
-  }, [filtered]);
+
+    return {
+      overall: slackStats(hoursOf(withSla), slaRiskMarginHours),
+      histogram,
+      groups: {
+        month: groupBy((r) => r.month).sort((a, b) => b.name.localeCompare(a.name)),
+        organization: groupBy((r) => r.organization || "(Sin organización)").sort(
+          (a, b) => b.tickets - a.tickets || a.name.localeCompare(b.name)
+        ),
+      },
+    };
+  }, [filtered, slaRiskMarginHours]);
 
   const comparisonKpis = useMemo(() => {
     const currentRows = filterRowsForPeriod(
-      rows,
+      includedRows,
       comparisonPeriods.comparisonCurrentPeriod.start,
       comparisonPeriods.comparisonCurrentPeriod.end,
       orgFilter,
       assigneeFilter,
-      statusFilter
+      statusFilter,
+      dimensionFilters,
+      orgKey
     );
     const currentJanisRows = filterJanisRowsForPeriod(
       janisRows,
       comparisonPeriods.comparisonCurrentPeriod.start,
       comparisonPeriods.comparisonCurrentPeriod.end,
-      orgFilter
+      orgFilter,
+      orgKey
     );
     const previousRows = filterRowsForPeriod(
-      rows,
+      includedRows,
       comparisonPeriods.comparisonPreviousPeriod.start,
       comparisonPeriods.comparisonPreviousPeriod.end,
       orgFilter,
       assigneeFilter,
-      statusFilter
+      statusFilter,
+      dimensionFilters,
+      orgKey
     );
     const previousJanisRows = filterJanisRowsForPeriod(
       janisRows,
       comparisonPeriods.comparisonPreviousPeriod.start,
       comparisonPeriods.comparisonPreviousPeriod.end,
-      orgFilter
+      orgFilter,
+      orgKey
     );
 
     return {
-      current: buildPeriodKpis(currentRows, currentJanisRows),
-      previous: buildPeriodKpis(previousRows, previousJanisRows),
+      current: buildPeriodKpis(currentRows, currentJanisRows, statusCategoryOf, teamSizeOf, isNormalSchedule),
+      previous: buildPeriodKpis(previousRows, previousJanisRows, statusCategoryOf, teamSizeOf, isNormalSchedule),
     };
   }, [
-    rows,
+    includedRows,
+    statusCategoryOf,
     janisRows,
     comparisonPeriods,
     orgFilter,
     assigneeFilter,
     statusFilter,
+    dimensionFilters,
+    orgKey,
+    teamSizeOf,
+    isNormalSchedule,
+  ]);
+
+  // Ficha de cliente: período de fechas seleccionado, solo filtro de organización
+  const orgScorecard = useMemo((): OrgScorecard | null => {
+    if (!scorecardOrg) return null;
+    const org = [scorecardOrg];
+    const { start, end } = comparisonPeriods.selectedPeriod;
+    const orgRows = filterRowsForPeriod(includedRows, start, end, org, "all", "all", ALL_DIMENSION_FILTERS, orgKey);
+    const orgJanisRows = filterJanisRowsForPeriod(janisRows, start, end, org, orgKey);
+    const periodKpis = (period: MonthPeriod) =>
+      buildPeriodKpis(
+        filterRowsForPeriod(includedRows, period.start, period.end, org, "all", "all", ALL_DIMENSION_FILTERS, orgKey),
+        filterJanisRowsForPeriod(janisRows, period.start, period.end, org, orgKey),
+        statusCategoryOf,
+        teamSizeOf,
+        isNormalSchedule
+      );
+
+    const byMonth = new Map<string, { month: string; tickets: number; orders: number }>();
+    orgRows.forEach((r) => {
+      const cur = byMonth.get(r.month) || { month: r.month, tickets: 0, orders: 0 };
+      cur.tickets += 1;
+      byMonth.set(r.month, cur);
+    });
+    orgJanisRows.forEach((r) => {
+      const cur = byMonth.get(r.month) || { month: r.month, tickets: 0, orders: 0 };
+      cur.orders += r.totalOrders;
+      byMonth.set(r.month, cur);
+    });
+
+    const byAssignee = new Map<string, number>();
+    orgRows.forEach((r) => {
+      const name = r.asignado || "(Sin asignar)";
+      byAssignee.set(name, (byAssignee.get(name) || 0) + 1);
+    });
+
+    const periods = buildComparisonPeriods(comparisonPeriods.selectedPeriod);
+    return {
+      organization: scorecardOrg,
+      summary: buildPeriodKpis(orgRows, orgJanisRows, statusCategoryOf, teamSizeOf, isNormalSchedule),
+      backlog: orgRows.filter((r) => isBacklogCategory(statusCategoryOf(r.estado))).length,
+      monthly: Array.from(byMonth.values())
+        .sort((a, b) => a.month.localeCompare(b.month))
+        .map((m) => ({ ...m, per1k: m.orders > 0 ? (m.tickets / m.orders) * 1000 : null })),
+      topAssignees: Array.from(byAssignee.entries())
+        .map(([name, tickets]) => ({ name, tickets }))
+        .sort((a, b) => b.tickets - a.tickets || a.name.localeCompare(b.name))
+        .slice(0, 5),
+      periods,
+      current: periodKpis(periods.comparisonCurrentPeriod),
+      previous: periodKpis(periods.comparisonPreviousPeriod),
+    };
+  }, [
+    scorecardOrg,
+    comparisonPeriods,
+    includedRows,
+    janisRows,
+    orgKey,
+    statusCategoryOf,
+    teamSizeOf,
+    isNormalSchedule,
   ]);
 
+  // La ficha usa la etiqueta canónica del filtro de organizaciones (client code si hay match con Janis)
+  const openOrgScorecard = (organization: string) => {
+    setScorecardOrg(filterOptions.orgs.find((o) => orgKey(o) === orgKey(organization)) ?? organization);
+  };
+
+  // Reporte ejecutivo acotado al cliente de la ficha
+  const openClientExecutiveReport = (organization: string) => {
+    // Si ya se venía de otro reporte de cliente se conserva la vista original
+    setFiltersBeforeClientReport((prev) => ({
+      organization,
+      orgFilter: prev ? prev.orgFilter : orgFilter,
+      assigneeFilter: prev ? prev.assigneeFilter : assigneeFilter,
+      statusFilter: prev ? prev.statusFilter : statusFilter,
+      dimensionFilters: prev ? prev.dimensionFilters : dimensionFilters,
+    }));
+    setOrgFilter([organization]);
+    setAssigneeFilter("all");
+    setStatusFilter("all");
+    setDimensionFilters(ALL_DIMENSION_FILTERS);
+    setShowExecutiveReport(true);
+    window.setTimeout(() => {
+      document.getElementById("executive-report")?.scrollIntoView({ behavior: "smooth", block: "start" });
+    }, 0);
+  };
+
+  const restoreFiltersBeforeClientReport = () => {
+    if (!filtersBeforeClientReport) return;
+    setOrgFilter(filtersBeforeClientReport.orgFilter);
+    setAssigneeFilter(filtersBeforeClientReport.assigneeFilter);
+    setStatusFilter(filtersBeforeClientReport.statusFilter);
+    setDimensionFilters(filtersBeforeClientReport.dimensionFilters);
+    setFiltersBeforeClientReport(null);
+  };
+
   const noPreviousPeriodData = "Sin datos del periodo anterior";
   const interannualRangeLabel = interannualMonthRangeLabel(comparisonPeriods.comparisonCurrentPeriod);
   const comparisonCurrentYear = periodYear(comparisonPeriods.comparisonCurrentPeriod);
@@ -1527,25 +5397,29 @@ export default function JiraExecutiveDashboard() {
     }
     const estadoByYear = Array.from(yearStatus.values()).sort((a, b) => Number(a.year) - Number(b.year));
 
-    // SLA response por año
-    const slaYear = new Map<string, any>();
-    for (const r of filtered) {
-      const y = String(r.year);
-      const obj =
-        slaYear.get(y) ||
-        ({ year: y, Total: 0, Cumplido: 0, Incumplido: 0, CumplidoPct: 0, IncumplidoPct: 0 } as any);
-      obj.Total += 1;
-      if (r.slaResponseStatus === "Incumplido") obj.Incumplido += 1;
-      else obj.Cumplido += 1;
-      slaYear.set(y, obj);
-    }
-    const slaByYear = Array.from(slaYear.values())
-      .map((x) => ({
-        ...x,
-        CumplidoPct: x.Total ? (x.Cumplido / x.Total) * 100 : 0,
-        IncumplidoPct: x.Total ? (x.Incumplido / x.Total) * 100 : 0,
-      }))
-      .sort((a, b) => Number(a.year) - Number(b.year));
+    // SLA (response / resolution) por año
+    const slaStatusByYear = (statusOf: (r: Row) => Row["slaResponseStatus"]) => {
+      const slaYear = new Map<string, any>();
+      for (const r of filtered) {
+        const y = String(r.year);
+        const obj =
+          slaYear.get(y) ||
+          ({ year: y, Total: 0, Cumplido: 0, Incumplido: 0, CumplidoPct: 0, IncumplidoPct: 0 } as any);
+        obj.Total += 1;
+        if (statusOf(r) === "Incumplido") obj.Incumplido += 1;
+        else obj.Cumplido += 1;
+        slaYear.set(y, obj);
+      }
+      return Array.from(slaYear.values())
+        .map((x) => ({
+          ...x,
+          CumplidoPct: x.Total ? (x.Cumplido / x.Total) * 100 : 0,
+          IncumplidoPct: x.Total ? (x.Incumplido / x.Total) * 100 : 0,
+        }))
+        .sort((a, b) => Number(a.year) - Number(b.year));
+    };
+    const slaByYear = slaStatusByYear((r) => r.slaResponseStatus);
+    const slaResolutionByYear = slaStatusByYear((r) => r.slaResolutionStatus);
 
     // Count helper
     const count = (keyFn: (r: Row) => string) => {
@@ -1586,7 +5460,12 @@ export default function JiraExecutiveDashboard() {
 
     // Heatmap mes vs estado (solo últimos 6 meses)
     const heatMap = (() => {
-      const states = Array.from(new Set(filtered.map((r) => r.estado || "(Sin estado)"))).sort();
+      // Columnas agrupadas por categoría de la taxonomía (abiertos → excluidos) y luego por nombre
+      const categoryOrder = (s: string) =>
+        STATUS_CATEGORIES.findIndex((c) => c.category === statusCategoryOf(s === "(Sin estado)" ? "" : s));
+      const states = Array.from(new Set(filtered.map((r) => r.estado || "(Sin estado)"))).sort(
+        (a, b) => categoryOrder(a) - categoryOrder(b) || a.localeCompare(b)
+      );
       const byM = new Map<string, any>();
       for (const r of filtered) {
         const key = r.month;
@@ -1606,7 +5485,7 @@ export default function JiraExecutiveDashboard() {
       const hours = Array.from({ length: 24 }, (_, i) => i);
       const counts = new Map<number, number>();
       for (const r of filtered) {
-        const h = r.creada instanceof Date ? r.creada.getHours() : null;
+        const h = r.hour;
         if (h == null) continue;
         counts.set(h, (counts.get(h) || 0) + 1);
       }
@@ -1627,9 +5506,8 @@ export default function JiraExecutiveDashboard() {
       const isoDayIndex = (jsDay: number) => (jsDay + 6) % 7;
 
       for (const r of filtered) {
-        if (!(r.creada instanceof Date)) continue;
-        const h = r.creada.getHours();
-        const di = isoDayIndex(r.creada.getDay());
+        const h = r.hour;
+        const di = isoDayIndex(r.weekday);
         const dLabel = days[di];
         matrix[h][dLabel] = (matrix[h][dLabel] || 0) + 1;
       }
@@ -1645,6 +5523,7 @@ export default function JiraExecutiveDashboard() {
       ticketsVsOrdersByYear,
       estadoByYear,
       slaByYear,
+      slaResolutionByYear,
       csatByYear,
       topAssignees,
       topOrgsPie,
@@ -1652,7 +5531,12 @@ export default function JiraExecutiveDashboard() {
       hourHeatMap,
       weekHeatMap,
     };
-  }, [filtered, janisFiltered]);
+  }, [filtered, janisFiltered, statusCategoryOf]);
+
+  const portfolio = useMemo(() => {
+    const entries = buildPortfolioMatrix(filtered, janisFiltered, orgKey);
+    return { entries, median: percentile(entries.map((e) => e.per1k), 50) };
+  }, [filtered, janisFiltered, orgKey]);
 
   const ticketsPer1kTrend = useMemo(
     () => buildTicketsPer1kByMonth(series.ticketsVsOrdersByMonth || []),
@@ -1684,8 +5568,9 @@ export default function JiraExecutiveDashboard() {
     const maxOrders = items.reduce((m, x) => Math.max(m, Number(x.orders) || 0), 0);
 
     const maxCreated = filtered.length ? filtered[filtered.length - 1].creada : null;
-    const maxYear = maxCreated ? maxCreated.getFullYear() : null;
-    const isPartialYear = !!maxCreated && !(maxCreated.getMonth() === 11 && maxCreated.getDate() === 31);
+    const maxCreatedParts = maxCreated ? zonedParts(maxCreated, timeZones.display) : null;
+    const maxYear = maxCreatedParts ? maxCreatedParts.year : null;
+    const isPartialYear = !!maxCreatedParts && !(maxCreatedParts.month === 12 && maxCreatedParts.day === 31);
     const currentYear = new Date().getFullYear();
 
     const growthPct = (current: number, prev: number) => {
@@ -1734,13 +5619,60 @@ export default function JiraExecutiveDashboard() {
           year: String(x.year),
           tickets: ticketsVal,
           orders: ordersVal,
-          partialLabel: partial && maxCreated ? ` (parcial al ${formatDateCLShort(maxCreated)})` : "",
+          partialLabel: partial && maxCreated ? ` (parcial al ${formatDateCLShort(maxCreated, timeZones.display)})` : "",
           ticketsGrowthPct: showGrowth ? growthPct(currentYtd.tickets, prevYtd.tickets) : null,
           ordersGrowthPct: showGrowth ? growthPct(currentYtd.orders, prevYtd.orders) : null,
         };
       }),
     };
-  }, [series.ticketsVsOrdersByYear, series.ticketsVsOrdersByMonth, filtered]);
+  }, [series.ticketsVsOrdersByYear, series.ticketsVsOrdersByMonth, filtered, timeZones.display]);
+
+  // Desglose por dimensión: top 5 valores + Otros (etiquetas/componentes pueden sumar > 100%)
+  const dimensionBreakdown = useMemo(() => {
+    const dim = ROW_DIMENSIONS.find((d) => d.key === breakdownDimension) || ROW_DIMENSIONS[0];
+    const totals = new Map<string, { tickets: number; respInc: number }>();
+    const byMonth = new Map<string, Map<string, number>>();
+    for (const r of filtered) {
+      const values = rowDimensionValues(r, dim.key);
+      for (const v of values.length ? values : [dim.empty]) {
+        const t = totals.get(v) || { tickets: 0, respInc: 0 };
+        t.tickets += 1;
+        if (r.slaResponseStatus === "Incumplido") t.respInc += 1;
+        totals.set(v, t);
+        const m = byMonth.get(r.month) || new Map<string, number>();
+        m.set(v, (m.get(v) || 0) + 1);
+        byMonth.set(r.month, m);
+      }
+    }
+
+    const ranked = Array.from(totals.entries())
+      .map(([name, t]) => ({
+        name,
+        tickets: t.tickets,
+        share: pct(t.tickets, filtered.length),
+        respOkPct: 100 - pct(t.respInc, t.tickets),
+      }))
+      .sort((a, b) => b.tickets - a.tickets || a.name.localeCompare(b.name));
+    const top = ranked.slice(0, PIE_COLORS.length - 1).map((x) => x.name);
+    const hasOthers = ranked.length > top.length;
+
+    const monthly = Array.from(byMonth.keys())
+      .sort()
+      .slice(-12)
+      .map((month) => {
+        const counts = byMonth.get(month) as Map<string, number>;
+        const obj: Record<string, any> = { month };
+        let others = 0;
+        counts.forEach((n, name) => {
+          if (top.includes(name)) obj[name] = n;
+          else others += n;
+        });
+        if (hasOthers) obj.Otros = others;
+        return obj;
+      });
+
+    return { dim, ranked, top, hasOthers, monthly, multiValue: dim.key === "labels" || dim.key === "components" };
+  }, [filtered, breakdownDimension]);
 
   const heatMaxMonthState = useMemo(() => {
     let max = 0;
@@ -1758,42 +5690,20 @@ export default function JiraExecutiveDashboard() {
     const currentRows = currentMonth ? filtered.filter((r) => r.month === currentMonth) : [];
     const previousRows = previousMonth ? filtered.filter((r) => r.month === previousMonth) : [];
 
-    const closedStatuses = new Set([
-      "done",
-      "closed",
-      "resuelto",
-      "resuelta",
-      "solucionado",
-      "solucionada",
-      "resuelto/a",
-      "completado",
-      "completada",
-    ]);
-
-    const canceledStatuses = new Set([
-      "cancelado",
-      "cancelada",
-      "cancelled",
-      "canceled",
-      "anulado",
-      "anulada",
-    ]);
-
     const withoutCanceled = (rowsSubset: Row[]) =>
-      rowsSubset.filter((r) => !canceledStatuses.has(String(r.estado || "").trim().toLowerCase()));
+      rowsSubset.filter((r) => statusCategoryOf(r.estado) !== "canceled");
 
     const resolvedCount = (rowsSubset: Row[]) =>
-      rowsSubset.filter((r) => closedStatuses.has(String(r.estado || "").trim().toLowerCase())).length;
+      rowsSubset.filter((r) => statusCategoryOf(r.estado) === "resolved").length;
 
     const backlogCount = (rowsSubset: Row[]) =>
-      rowsSubset.filter((r) => !closedStatuses.has(String(r.estado || "").trim().toLowerCase())).length;
+      rowsSubset.filter((r) => isBacklogCategory(statusCategoryOf(r.estado))).length;
 
     const backlogByStatus = (rowsSubset: Row[]) => {
       const map = new Map<string, { count: number; keys: string[] }>();
       rowsSubset.forEach((r) => {
         const statusRaw = String(r.estado || "").trim();
-        const statusKey = statusRaw.toLowerCase();
-        if (!statusRaw || closedStatuses.has(statusKey)) return;
+        if (!statusRaw || !isBacklogCategory(statusCategoryOf(statusRaw))) return;
         const current = map.get(statusRaw) || { count: 0, keys: [] };
         current.count += 1;
         if (r.key) current.keys.push(r.key);
@@ -1819,9 +5729,41 @@ export default function JiraExecutiveDashboard() {
       100 - pct(currentRowsNoCanceled.filter((r) => r.slaResponseStatus === "Incumplido").length, ticketsCurrent);
     const slaPrev =
       100 - pct(previousRowsNoCanceled.filter((r) => r.slaResponseStatus === "Incumplido").length, ticketsPrev);
+    const slaResolutionCurrent =
+      100 - pct(currentRowsNoCanceled.filter((r) => r.slaResolutionStatus === "Incumplido").length, ticketsCurrent);
+    const slaResolutionPrev =
+      100 - pct(previousRowsNoCanceled.filter((r) => r.slaResolutionStatus === "Incumplido").length, ticketsPrev);
     const backlogCurrent = backlogCount(currentRowsNoCanceled);
     const backlogPrev = backlogCount(previousRowsNoCanceled);
     const backlogStatusCurrent = backlogByStatus(currentRowsNoCanceled);
+    const waitingCurrent = currentRowsNoCanceled.filter((r) => statusCategoryOf(r.estado) === "waiting").length;
+
+    // Reaperturas detectadas en snapshots cuya foto posterior cae en el mes (null sin historial)
+    const reopensIn = (month: string | null) =>
+      month ? snapshotHistory.reopens.filter((r) => r.toDate.slice(0, 7) === month) : [];
+    const reopensCurrent = reopensIn(currentMonth);
+    const reopens =
+      snapshotHistory.points.length > 1
+        ? {
+            current: reopensCurrent.length,
+            mom: monthDeltaPct(reopensCurrent.length, reopensIn(previousMonth).length),
+            keys: Array.from(new Set(reopensCurrent.map((r) => r.key))).sort((a, b) => a.localeCompare(b)),
+          }
+        : null;
+
+    // Tasa de reapertura del mes (tickets creados en el mes) según el changelog
+    const changelogMonth = (month: string | null) =>
+      (month && changelogMetrics?.byMonth.find((g) => g.name === month)) || null;
+    const changelogCurrent = changelogMonth(currentMonth);
+    const changelogPrev = changelogMonth(previousMonth);
+    const reopenRate = changelogMetrics
+      ? {
+          rate: changelogCurrent?.reopenRate ?? 0,
+          reopened: changelogCurrent?.reopened ?? 0,
+          resolved: changelogCurrent?.resolved ?? 0,
+          mom: changelogPrev ? monthDeltaPct(changelogCurrent?.reopenRate ?? 0, changelogPrev.reopenRate) : null,
+        }
+      : null;
 
     const metricStatus = (metric: string, value: number) => {
       if (!Number.isFinite(value)) return "neutral" as const;
@@ -1867,13 +5809,15 @@ export default function JiraExecutiveDashboard() {
         ? [
             `Volume de tickets ${momSummary(ticketsMom, "em alta", "em baixa")} em ${monthLabel(currentMonth)}.`,
             `Cumprimento de SLA ${slaCurrent >= 95 ? "estável" : "em risco"} em ${slaCurrent.toFixed(1)}%, com foco na continuidade operacional.`,
-            `Backlog ${momSummary(backlogMom, "aumenta", "diminui")} e exige foco por status operacional.`,
+            `Backlog ${momSummary(backlogMom, "aumenta", "diminui")} e exige foco por status operacional` +
+              (waitingCurrent ? ` (${formatInt(waitingCurrent)} aguardando cliente).` : "."),
             "Os esforços estão concentrados para entregar esses desenvolvimentos dentro da semana.",
           ]
         : [
             `Volumen de tickets ${momSummary(ticketsMom, "al alza", "a la baja")} en ${monthLabel(currentMonth)}.`,
             `Cumplimiento SLA ${slaCurrent >= 95 ? "estable" : "en riesgo"} en ${slaCurrent.toFixed(1)}%, foco en continuidad operativa.`,
-            `Backlog ${momSummary(backlogMom, "aumenta", "disminuye")} y requiere foco por estado operativo.`,
+            `Backlog ${momSummary(backlogMom, "aumenta", "disminuye")} y requiere foco por estado operativo` +
+              (waitingCurrent ? ` (${formatInt(waitingCurrent)} esperando cliente).` : "."),
             "Se concentran esfuerzos para entregar esos desarrollos dentro de la semana.",
           ];
     })();
@@ -1900,6 +5844,12 @@ export default function JiraExecutiveDashboard() {
           mom: monthDeltaPct(slaCurrent, slaPrev),
           status: metricStatus("sla", slaCurrent),
         },
+        {
+          label: "🏁 SLA resolución",
+          value: formatPct(slaResolutionCurrent),
+          mom: monthDeltaPct(slaResolutionCurrent, slaResolutionPrev),
+          status: metricStatus("sla", slaResolutionCurrent),
+        },
         {
           label: "🔴 Backlog al cierre",
           value: formatInt(backlogCurrent),
@@ -1910,19 +5860,33 @@ export default function JiraExecutiveDashboard() {
       backlogByStatus: backlogStatusCurrent,
       resolvedMom: monthDeltaPct(resolvedCurrent, resolvedPrev),
       backlogMom: monthDeltaPct(backlogCurrent, backlogPrev),
+      reopens,
+      reopenRate,
       insights: safeInsights,
     };
-  }, [filtered, language]);
-
-  const clearAll = () => {
+  }, [filtered, language, statusCategoryOf, snapshotHistory, changelogMetrics]);
+
+  const clearAll = (options?: { purgeStorage?: boolean }) => {
+    stopIngestWorker();
+    setActiveDatasetIds({ jira: null, janis: null });
+    if (options?.purgeStorage) {
+      clearDatasets()
+        .then(() => setDatasets([]))
+        .catch(() => setError("No se pudo borrar el almacenamiento local."));
+    }
     setRows([]);
+    setImportIssues([]);
+    setPendingJiraImport(null);
     setJanisRows([]);
+    setChangelog(null);
+    setFiltersBeforeClientReport(null);
     setError(null);
     setFromMonth("all");
     setToMonth("all");
-    setOrgFilter("all");
+    setOrgFilter([]);
     setAssigneeFilter("all");
     setStatusFilter("all");
+    setDimensionFilters(ALL_DIMENSION_FILTERS);
     setAutoRange({ minMonth: null, maxMonth: null });
   };
 
@@ -1935,7 +5899,7 @@ export default function JiraExecutiveDashboard() {
               Janis Commerce -  Care Executive Dashboard
             </h1>
             <p className="text-sm text-slate-500 mt-1">
-              Sube tu CSV de Jira y de Janis (order-report) para visualizar
+              Sube tu CSV (o JSON REST) de Jira y de Janis (order-report) para visualizar
             </p>
           </div>
 
@@ -1950,14 +5914,46 @@ export default function JiraExecutiveDashboard() {
               </SelectContent>
             </Select>
 
+            <label className="flex items-center gap-2 text-xs text-slate-500" title="Zona horaria del export Jira (se aplica al importar)">
+              Zona export
+              <select
+                className="w-[170px]"
+                value={timeZones.source}
+                onChange={(e) => updateTimeZones({ ...timeZones, source: e.target.value })}
+              >
+                {TIME_ZONE_OPTIONS.map((tz) => (
+                  <option key={tz.value} value={tz.value}>
+                    {tz.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
+            <label className="flex items-center gap-2 text-xs text-slate-500" title="Zona horaria usada para meses, heatmaps y horario Normal/Guardia">
+              Zona vista
+              <select
+                className="w-[170px]"
+                value={timeZones.display}
+                onChange={(e) => updateTimeZones({ ...timeZones, display: e.target.value })}
+              >
+                {TIME_ZONE_OPTIONS.map((tz) => (
+                  <option key={tz.value} value={tz.value}>
+                    {tz.label}
+                  </option>
+                ))}
+              </select>
+            </label>
+
             <input
               ref={jiraFileInputRef}
               type="file"
-              accept=".csv,text/csv"
+              accept=".csv,text/csv,.json,application/json"
               className="hidden"
               onChange={(e) => {
                 const f = e.target.files && e.target.files[0];
                 if (f) onFile(f);
+                // Permite volver a elegir el mismo archivo (exports en varias partes)
+                e.target.value = "";
               }}
             />
 
@@ -1970,6 +5966,19 @@ export default function JiraExecutiveDashboard() {
               Jira Data
             </Button>
 
+            <label
+              className="flex items-center gap-2 rounded-md border border-slate-200 bg-white px-3 text-xs text-slate-700"
+              title="Agrega el CSV a los datos cargados, de-duplicando por clave de incidencia"
+            >
+              <input
+                type="checkbox"
+                className="h-4 w-4 rounded border-slate-300"
+                checked={jiraImportMode === "append"}
+                onChange={(e) => setJiraImportMode(e.target.checked ? "append" : "replace")}
+              />
+              Agregar (merge)
+            </label>
+
             <input
               ref={janisFileInputRef}
               type="file"
@@ -1990,6 +5999,29 @@ export default function JiraExecutiveDashboard() {
               Janis Data
             </Button>
 
+            <input
+              ref={changelogFileInputRef}
+              type="file"
+              accept=".csv,text/csv"
+              className="hidden"
+              onChange={(e) => {
+                const f = e.target.files && e.target.files[0];
+                if (f) onChangelogFile(f);
+                e.target.value = "";
+              }}
+            />
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              title="CSV de historial de estados Jira: key, desde, hacia, fecha"
+              disabled={!rows.length}
+              onClick={() => {
+                changelogFileInputRef.current?.click();
+              }}
+            >
+              Changelog
+            </Button>
+
             <Button
               className="text-white"
               style={{ backgroundColor: UI.primary }}
@@ -2021,6 +6053,7 @@ export default function JiraExecutiveDashboard() {
                       org: orgFilter.length === 0 ? "Todas" : orgFilter.join(", "),
                       assignee: assigneeFilter === "all" ? "Todos" : assigneeFilter,
                       status: statusFilter === "all" ? "Todos" : statusFilter,
+                      dimensions: describeDimensionFilters(dimensionFilters),
                     },
                     autoRange,
                     executive: executiveReportData,
@@ -2042,7 +6075,55 @@ export default function JiraExecutiveDashboard() {
               {exporting ? "Exporting…" : "Export"}
             </Button>
 
-            <Button variant="outline" onClick={clearAll}>
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => setShowDatasets((prev) => !prev)}
+            >
+              Datasets ({datasets.length})
+            </Button>
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => setShowStatusTaxonomy((prev) => !prev)}
+            >
+              Estados
+            </Button>
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              disabled={!filterOptions.orgs.length}
+              onClick={() =>
+                setScorecardOrg((prev) => (prev ? null : orgFilter.length === 1 ? orgFilter[0] : filterOptions.orgs[0]))
+              }
+            >
+              Ficha cliente
+            </Button>
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => setShowRoster((prev) => !prev)}
+            >
+              Dotación
+            </Button>
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => setShowBusinessCalendar((prev) => !prev)}
+            >
+              Horario y feriados
+            </Button>
+
+            <Button
+              className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+              onClick={() => setShowOrgAliases((prev) => !prev)}
+            >
+              Alias orgs
+              {rows.length && janisRows.length && orgMatchReport.unmatchedJira.length
+                ? ` (${formatInt(orgMatchReport.unmatchedJira.length)} sin match)`
+                : ""}
+            </Button>
+
+            <Button variant="outline" onClick={() => clearAll()}>
               Clean
             </Button>
           </div>
@@ -2054,6 +6135,134 @@ export default function JiraExecutiveDashboard() {
           </div>
         ) : null}
 
+        {ingestProgress ? (
+          <div className="mt-4 rounded-xl border border-slate-200 bg-white p-3 text-sm text-slate-700">
+            <div className="flex items-center justify-between gap-3">
+              <div>
+                <span className="font-semibold">{ingestProgress.label}</span>
+                <span className={"ml-2 " + UI.subtle}>
+                  {ingestProgress.phase}
+                  {ingestProgress.total > 0 ? ` · ${Math.round(pct(ingestProgress.done, ingestProgress.total))}%` : "…"}
+                </span>
+              </div>
+              <Button
+                className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                onClick={() => {
+                  stopIngestWorker();
+                  setPendingJiraImport(null);
+                  setError("Importación cancelada.");
+                }}
+              >
+                Cancelar
+              </Button>
+            </div>
+            <div className="mt-2 h-2 rounded-full bg-slate-100 overflow-hidden">
+              <div
+                className="h-2 rounded-full transition-all"
+                style={{
+                  width: `${ingestProgress.total > 0 ? Math.min(100, pct(ingestProgress.done, ingestProgress.total)) : 5}%`,
+                  backgroundColor: UI.primary,
+                }}
+              />
+            </div>
+          </div>
+        ) : null}
+
+        {showDatasets ? (
+          <DatasetsPanel
+            datasets={datasets}
+            activeIds={activeDatasetIds}
+            onActivate={activateDataset}
+            onDelete={removeDataset}
+            onSnapshotDateChange={setSnapshotDate}
+            onPurge={() => {
+              if (!window.confirm("¿Borrar todos los datasets guardados y limpiar el dashboard?")) return;
+              clearAll({ purgeStorage: true });
+            }}
+            onClose={() => setShowDatasets(false)}
+          />
+        ) : null}
+
+        {showStatusTaxonomy ? (
+          <StatusTaxonomyPanel
+            rows={rows}
+            taxonomy={statusTaxonomy}
+            onChange={updateStatusTaxonomy}
+            onClose={() => setShowStatusTaxonomy(false)}
+          />
+        ) : null}
+
+        {showRoster ? (
+          <StaffingPanel
+            roster={roster}
+            absences={absences}
+            months={Array.from(new Set(rows.map((r) => r.month))).sort()}
+            onChange={updateRoster}
+            onAbsencesChange={updateAbsences}
+            isWorkingDate={isWorkingDate}
+            onImport={importRoster}
+            onClose={() => setShowRoster(false)}
+          />
+        ) : null}
+
+        {showBusinessCalendar ? (
+          <BusinessCalendarPanel
+            calendar={businessCalendar}
+            onChange={updateBusinessCalendar}
+            onImport={importHolidayCalendar}
+            onClose={() => setShowBusinessCalendar(false)}
+          />
+        ) : null}
+
+        {orgScorecard ? (
+          <OrgScorecardPanel
+            scorecard={orgScorecard}
+            organizations={filterOptions.orgs}
+            onSelect={setScorecardOrg}
+            onExecutiveReport={() => openClientExecutiveReport(orgScorecard.organization)}
+            onClose={() => setScorecardOrg(null)}
+          />
+        ) : null}
+
+        {showOrgAliases ? (
+          <OrgAliasPanel
+            aliases={orgAliases}
+            report={orgMatchReport}
+            jiraOrgs={Array.from(new Set(rows.map((r) => r.organization).filter(Boolean))).sort()}
+            clientCodes={Array.from(new Set(janisRows.map((r) => r.clientCode).filter(Boolean))).sort()}
+            hasBothSources={rows.length > 0 && janisRows.length > 0}
+            onChange={updateOrgAliases}
+            onImport={importOrgAliases}
+            onClose={() => setShowOrgAliases(false)}
+          />
+        ) : null}
+
+        {importIssues.length ? (
+          <ImportReportPanel
+            issues={importIssues}
+            expanded={showImportReport}
+            onToggle={() => setShowImportReport((prev) => !prev)}
+          />
+        ) : null}
+
+        {pendingJiraImport ? (
+          <ColumnMappingWizard
+            pending={pendingJiraImport}
+            profiles={mappingProfiles}
+            onMappingChange={(mapping) => setPendingJiraImport({ ...pendingJiraImport, mapping })}
+            onApply={() => {
+              applyJiraMapping(pendingJiraImport.mapping);
+              setPendingJiraImport(null);
+            }}
+            onSaveProfile={saveMappingProfile}
+            onDeleteProfile={deleteMappingProfile}
+            onCancel={() => {
+              stopIngestWorker();
+              setPendingJiraImport(null);
+            }}
+          />
+        ) : null}
+
         {/* Filters */}
         <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-5">
           <Card className={`${UI.card} date-filter-highlight`}>
@@ -2132,6 +6341,29 @@ export default function JiraExecutiveDashboard() {
           </Card>
         </div>
 
+        <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-5">
+          {ROW_DIMENSIONS.map(({ key, label }) => (
+            <Card key={key} className={UI.card}>
+              <CardContent className="p-4">
+                <div className={UI.subtle}>{label}</div>
+                <select
+                  className="w-full"
+                  value={dimensionFilters[key]}
+                  disabled={!filterOptions.dimensions[key].length && dimensionFilters[key] === "all"}
+                  onChange={(e) => setDimensionFilters((prev) => ({ ...prev, [key]: e.target.value }))}
+                >
+                  <option value="all">Todos</option>
+                  {filterOptions.dimensions[key].map((v) => (
+                    <option key={v} value={v}>
+                      {v}
+                    </option>
+                  ))}
+                </select>
+              </CardContent>
+            </Card>
+          ))}
+        </div>
+
         {/* KPIs */}
         <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-5">
           {kpiCard(
@@ -2208,7 +6440,11 @@ export default function JiraExecutiveDashboard() {
             "Tickets / Persona (prom. 6 meses)",
             kpis.tpp6m == null ? "—" : kpis.tpp6m.toFixed(1),
             "(excluye mes actual si no está cerrado)",
-            undefined,
+            kpis.ticketsPerAvailableDay == null
+              ? undefined
+              : `${kpis.ticketsPerAvailableDay.toFixed(2)} por día-agente disponible (${formatInt(
+                  Math.round(kpis.availableDays6m)
+                )} días)`,
             <HealthBadge label={kpis.tppHealth.label} color={kpis.tppHealth.color} />,
             renderInterannualComparison({
               hasCurrentValue: comparisonKpis.current.hasJiraPeriodData && comparisonKpis.current.tpp != null,
@@ -2241,46 +6477,212 @@ export default function JiraExecutiveDashboard() {
           )}
           <Card className={UI.card}>
             <CardHeader className="pb-2">
-              <CardTitle className={UI.title}>Tickets por 1.000 órdenes</CardTitle>
+              <CardTitle className={UI.title}>Tickets por 1.000 órdenes</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="text-2xl font-semibold tracking-tight text-slate-900">
+                {filtered.length === 0
+                  ? "Sin tickets en el período"
+                  : `1 ticket cada ${formatInt(janisKpis.ordersPerTicketRounded || 0)} órdenes`}
+              </div>
+              <div className={"mt-1 text-sm font-medium text-slate-700"}>
+                {janisKpis.ticketsPer1kOrders == null ? "—" : janisKpis.ticketsPer1kOrders.toFixed(2)}
+              </div>
+              <KpiPreviousPeriod>
+                {renderInterannualComparison({
+                  hasCurrentValue:
+                    comparisonKpis.current.hasJanisPeriodData &&
+                    comparisonKpis.current.hasJiraPeriodData &&
+                    comparisonKpis.current.ticketsPer1kOrders != null,
+                  currentValue:
+                    comparisonKpis.current.ordersPerTicketRounded == null
+                      ? "Sin tickets en el período"
+                      : `1 ticket cada ${formatInt(comparisonKpis.current.ordersPerTicketRounded)} órdenes (${comparisonKpis.current.ticketsPer1kOrders?.toFixed(2)})`,
+                  currentMetricValue: comparisonKpis.current.ticketsPer1kOrders,
+                  hasPreviousValue:
+                    comparisonKpis.previous.hasJanisPeriodData &&
+                    comparisonKpis.previous.hasJiraPeriodData &&
+                    comparisonKpis.previous.ticketsPer1kOrders != null,
+                  previousValue:
+                    comparisonKpis.previous.ordersPerTicketRounded == null
+                      ? "Sin tickets en el período"
+                      : `1 ticket cada ${formatInt(comparisonKpis.previous.ordersPerTicketRounded)} órdenes (${comparisonKpis.previous.ticketsPer1kOrders?.toFixed(2)})`,
+                  previousMetricValue: comparisonKpis.previous.ticketsPer1kOrders,
+                  direction: "lower-is-better",
+                })}
+              </KpiPreviousPeriod>
+            </CardContent>
+          </Card>
+          {kpiCard("Janis Card 3", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
+          {kpiCard("Janis Card 4", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
+          {kpiCard("Janis Card 5", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
+        </div>
+
+        {/* Resolución */}
+        <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-5">
+          {kpiCard(
+            "Tiempo de resolución (mediana)",
+            formatHours(resolutionMetrics.overall.median),
+            `${formatInt(resolutionMetrics.overall.resolved)} tickets resueltos con fecha`,
+            undefined,
+            undefined,
+            renderInterannualComparison({
+              hasCurrentValue: comparisonKpis.current.ttrMedian != null,
+              currentValue: formatHours(comparisonKpis.current.ttrMedian),
+              currentMetricValue: comparisonKpis.current.ttrMedian,
+              hasPreviousValue: comparisonKpis.previous.ttrMedian != null,
+              previousValue: formatHours(comparisonKpis.previous.ttrMedian),
+              previousMetricValue: comparisonKpis.previous.ttrMedian,
+              direction: "lower-is-better",
+            })
+          )}
+          {kpiCard(
+            "Tiempo de resolución (p90)",
+            formatHours(resolutionMetrics.overall.p90),
+            "9 de cada 10 tickets se resuelven antes",
+            undefined,
+            undefined,
+            renderInterannualComparison({
+              hasCurrentValue: comparisonKpis.current.ttrP90 != null,
+              currentValue: formatHours(comparisonKpis.current.ttrP90),
+              currentMetricValue: comparisonKpis.current.ttrP90,
+              hasPreviousValue: comparisonKpis.previous.ttrP90 != null,
+              previousValue: formatHours(comparisonKpis.previous.ttrP90),
+              previousMetricValue: comparisonKpis.previous.ttrP90,
+              direction: "lower-is-better",
+            })
+          )}
+          {kpiCard(
+            "Cumplimiento SLA Resolution",
+            formatPct(kpis.resolOkPct),
+            `${formatInt(kpis.resolInc)} incumplidos`,
+            undefined,
+            undefined,
+            renderInterannualComparison({
+              hasCurrentValue: comparisonKpis.current.hasJiraPeriodData,
+              currentValue: formatPct(comparisonKpis.current.resolOkPct),
+              currentMetricValue: comparisonKpis.current.resolOkPct,
+              hasPreviousValue: comparisonKpis.previous.hasJiraPeriodData,
+              previousValue: formatPct(comparisonKpis.previous.resolOkPct),
+              previousMetricValue: comparisonKpis.previous.resolOkPct,
+              direction: "higher-is-better",
+            })
+          )}
+          <Card className={UI.card + " md:col-span-2"}>
+            <CardHeader className="pb-2">
+              <CardTitle className={UI.title}>Tiempo de resolución por mes de creación (horas)</CardTitle>
+            </CardHeader>
+            <CardContent className="h-56">
+              {resolutionMetrics.trend.length ? (
+                <ResponsiveContainer width="100%" height="100%">
+                  <LineChart data={resolutionMetrics.trend}>
+                    <CartesianGrid stroke={UI.grid} />
+                    <XAxis dataKey="month" tickFormatter={monthLabel as any} />
+                    <YAxis />
+                    <Tooltip
+                      labelFormatter={(l) => monthLabel(String(l))}
+                      formatter={(v: any, n: any) => [formatHours(Number(v)), n]}
+                    />
+                    <Legend />
+                    <Line type="monotone" dataKey="median" name="Mediana" stroke={UI.primary} dot={false} />
+                    <Line type="monotone" dataKey="p90" name="p90" stroke={UI.warning} dot={false} />
+                  </LineChart>
+                </ResponsiveContainer>
+              ) : (
+                <p className={UI.subtle}>
+                  Sin tickets resueltos con fecha. Mapea la columna "Resuelta" (o "Actualizada") al importar.
+                </p>
+              )}
+            </CardContent>
+          </Card>
+        </div>
+
+        {resolutionMetrics.overall.resolved ? (
+          <Card className={UI.card + " mt-3"}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <CardTitle className={UI.title}>Tiempo de resolución por grupo</CardTitle>
+                <select
+                  className="md:w-56"
+                  value={resolutionGroup}
+                  onChange={(e) => setResolutionGroup(e.target.value as typeof resolutionGroup)}
+                >
+                  <option value="organization">Organización</option>
+                  <option value="asignado">Asignado</option>
+                  <option value="priority">Prioridad</option>
+                </select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="max-h-72 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-left">
+                      <th className="p-2 border border-slate-200 bg-slate-50">Grupo</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Resueltos</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Mediana</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">p90</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {[...resolutionMetrics.groups[resolutionGroup]]
+                      .sort((a, b) => b.resolved - a.resolved || a.name.localeCompare(b.name))
+                      .map((g) => (
+                        <tr key={g.name}>
+                          <td className="p-2 border border-slate-200">{g.name}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatInt(g.resolved)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatHours(g.median)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatHours(g.p90)}</td>
+                        </tr>
+                      ))}
+                  </tbody>
+                </table>
+              </div>
+            </CardContent>
+          </Card>
+        ) : null}
+
+        {assigneeWorkload.length ? (
+          <Card className={UI.card + " mt-3"}>
+            <CardHeader className="pb-2">
+              <CardTitle className={UI.title}>Carga por asignado (días-agente disponibles)</CardTitle>
+              <p className={"mt-1 " + UI.subtle}>
+                Días hábiles del período según dotación, descontando ausencias y ponderados por % FTE. Los asignados
+                que no están en la dotación quedan sin dato.
+              </p>
             </CardHeader>
             <CardContent>
-              <div className="text-2xl font-semibold tracking-tight text-slate-900">
-                {filtered.length === 0
-                  ? "Sin tickets en el período"
-                  : `1 ticket cada ${formatInt(janisKpis.ordersPerTicketRounded || 0)} órdenes`}
-              </div>
-              <div className={"mt-1 text-sm font-medium text-slate-700"}>
-                {janisKpis.ticketsPer1kOrders == null ? "—" : janisKpis.ticketsPer1kOrders.toFixed(2)}
+              <div className="max-h-72 overflow-auto">
+                <table className="w-full border-collapse text-sm">
+                  <thead>
+                    <tr className="text-left">
+                      <th className="p-2 border border-slate-200 bg-slate-50">Asignado</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Días disponibles</th>
+                      <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets / día disponible</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {assigneeWorkload.map((a) => (
+                      <tr key={a.name}>
+                        <td className="p-2 border border-slate-200">{a.name}</td>
+                        <td className="p-2 border border-slate-200 text-right">{formatInt(a.tickets)}</td>
+                        <td className="p-2 border border-slate-200 text-right">
+                          {a.availableDays == null
+                            ? "—"
+                            : a.availableDays.toLocaleString("es-CL", { maximumFractionDigits: 1 })}
+                        </td>
+                        <td className="p-2 border border-slate-200 text-right">
+                          {a.perDay == null ? "—" : a.perDay.toFixed(2)}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
               </div>
-              <KpiPreviousPeriod>
-                {renderInterannualComparison({
-                  hasCurrentValue:
-                    comparisonKpis.current.hasJanisPeriodData &&
-                    comparisonKpis.current.hasJiraPeriodData &&
-                    comparisonKpis.current.ticketsPer1kOrders != null,
-                  currentValue:
-                    comparisonKpis.current.ordersPerTicketRounded == null
-                      ? "Sin tickets en el período"
-                      : `1 ticket cada ${formatInt(comparisonKpis.current.ordersPerTicketRounded)} órdenes (${comparisonKpis.current.ticketsPer1kOrders?.toFixed(2)})`,
-                  currentMetricValue: comparisonKpis.current.ticketsPer1kOrders,
-                  hasPreviousValue:
-                    comparisonKpis.previous.hasJanisPeriodData &&
-                    comparisonKpis.previous.hasJiraPeriodData &&
-                    comparisonKpis.previous.ticketsPer1kOrders != null,
-                  previousValue:
-                    comparisonKpis.previous.ordersPerTicketRounded == null
-                      ? "Sin tickets en el período"
-                      : `1 ticket cada ${formatInt(comparisonKpis.previous.ordersPerTicketRounded)} órdenes (${comparisonKpis.previous.ticketsPer1kOrders?.toFixed(2)})`,
-                  previousMetricValue: comparisonKpis.previous.ticketsPer1kOrders,
-                  direction: "lower-is-better",
-                })}
-              </KpiPreviousPeriod>
             </CardContent>
           </Card>
-          {kpiCard("Janis Card 3", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
-          {kpiCard("Janis Card 4", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
-          {kpiCard("Janis Card 5", "—", "Próximamente", undefined, undefined, noPreviousPeriodData)}
-        </div>
+        ) : null}
 
         {ticketsPer1kTrend.length >= 2 ? (
           <Card className={UI.card + " mt-3"}>
@@ -2314,6 +6716,156 @@ export default function JiraExecutiveDashboard() {
           </Card>
         ) : null}
 
+        {portfolio.entries.length >= 2 ? (
+          <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
+            <Card className={UI.card}>
+              <CardHeader>
+                <CardTitle className={UI.title}>Portafolio: Órdenes vs Tickets por organización</CardTitle>
+                <p className={"mt-1 " + UI.subtle}>
+                  Una organización por punto (órdenes en escala log). En rojo, las que superan
+                  z = {portfolioZThreshold} en tickets por 1.000 órdenes.
+                </p>
+              </CardHeader>
+              <CardContent className="h-72">
+                <ResponsiveContainer width="100%" height="100%">
+                  <ScatterChart>
+                    <CartesianGrid stroke={UI.grid} />
+                    <XAxis
+                      type="number"
+                      dataKey="orders"
+                      name="Órdenes"
+                      scale="log"
+                      domain={["auto", "auto"]}
+                      tickFormatter={(v) => formatInt(v)}
+                    />
+                    <YAxis type="number" dataKey="tickets" name="Tickets" allowDecimals={false} />
+                    <Tooltip
+                      cursor={{ strokeDasharray: "3 3" }}
+                      content={({ active, payload }: any) => {
+                        const e: PortfolioEntry | undefined = active && payload && payload[0] && payload[0].payload;
+                        if (!e) return null;
+                        return (
+                          <div className="rounded-md border border-slate-200 bg-white p-2 text-xs shadow-sm">
+                            <div className="font-semibold text-slate-700">{e.organization}</div>
+                            <div>
+                              {formatInt(e.tickets)} tickets · {formatInt(e.orders)} órdenes
+                            </div>
+                            <div>{e.per1k.toFixed(2)} por 1.000 órdenes</div>
+                          </div>
+                        );
+                      }}
+                    />
+                    <Scatter
+                      data={portfolio.entries}
+                      className="cursor-pointer"
+                      onClick={(d: any) => d && d.organization && openOrgScorecard(d.organization)}
+                    >
+                      {portfolio.entries.map((e) => (
+                        <Cell
+                          key={e.key}
+                          fill={e.zScore != null && e.zScore > portfolioZThreshold ? UI.danger : UI.primary}
+                        />
+                      ))}
+                    </Scatter>
+                  </ScatterChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card className={UI.card}>
+              <CardHeader className="pb-2">
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <div>
+                    <CardTitle className={UI.title}>Ranking tickets por 1.000 órdenes</CardTitle>
+                    <p className={"mt-1 " + UI.subtle}>
+                      Mediana del portafolio:{" "}
+                      {portfolio.median == null ? "—" : portfolio.median.toFixed(2)}. Tendencia = último mes vs mes
+                      anterior.
+                    </p>
+                  </div>
+                  <label className={"flex items-center gap-2 " + UI.subtle}>
+                    Umbral z
+                    <Input
+                      type="number"
+                      className="w-20"
+                      min={0.5}
+                      step={0.5}
+                      value={portfolioZThreshold}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (!Number.isFinite(v) || v <= 0) return;
+                        setPortfolioZThreshold(v);
+                        storeJson(PORTFOLIO_Z_STORAGE_KEY, v);
+                      }}
+                    />
+                  </label>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-72 overflow-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="p-2 border border-slate-200 bg-slate-50">Organización</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Órdenes</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">x 1.000</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">vs mediana</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">z</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tendencia</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {portfolio.entries.map((e) => {
+                        const flagged = e.zScore != null && e.zScore > portfolioZThreshold;
+                        return (
+                          <tr
+                            key={e.key}
+                            className="cursor-pointer hover:bg-slate-50"
+                            onClick={() => openOrgScorecard(e.organization)}
+                          >
+                            <td className="p-2 border border-slate-200">
+                              {flagged ? (
+                                <span className="mr-1" style={{ color: UI.danger }} title="Sobre el umbral z">
+                                  ●
+                                </span>
+                              ) : null}
+                              {e.organization}
+                            </td>
+                            <td className="p-2 border border-slate-200 text-right">{formatInt(e.tickets)}</td>
+                            <td className="p-2 border border-slate-200 text-right">{formatInt(e.orders)}</td>
+                            <td className="p-2 border border-slate-200 text-right">{e.per1k.toFixed(2)}</td>
+                            <td className="p-2 border border-slate-200 text-right">
+                              {`${e.deviationFromMedian > 0 ? "+" : ""}${e.deviationFromMedian.toFixed(2)}`}
+                            </td>
+                            <td
+                              className="p-2 border border-slate-200 text-right"
+                              style={flagged ? { color: UI.danger, fontWeight: 600 } : undefined}
+                            >
+                              {e.zScore == null ? "—" : e.zScore.toFixed(2)}
+                            </td>
+                            <td
+                              className={
+                                "p-2 border border-slate-200 text-right " +
+                                metricPerformanceClass(e.momPct, e.momPct == null ? null : 0, "lower-is-better")
+                              }
+                              title={e.lastMonth ? `${monthLabel(e.lastMonth)} vs mes anterior` : undefined}
+                            >
+                              {e.momPct == null
+                                ? "—"
+                                : `${e.momPct > 0 ? "▲" : e.momPct < 0 ? "▼" : "="} ${Math.abs(e.momPct).toFixed(1)}%`}
+                            </td>
+                          </tr>
+                        );
+                      })}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        ) : null}
+
         {/* Charts */}
         <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-2">
           <Card className={UI.card}>
@@ -2374,7 +6926,7 @@ export default function JiraExecutiveDashboard() {
           </Card>
         </div>
 
-        <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-2">
+        <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-3">
           <Card className={UI.card}>
             <CardHeader>
               <CardTitle className={UI.title}>SLA Response por Año (porcentaje)</CardTitle>
@@ -2397,6 +6949,28 @@ export default function JiraExecutiveDashboard() {
             </CardContent>
           </Card>
 
+          <Card className={UI.card}>
+            <CardHeader>
+              <CardTitle className={UI.title}>SLA Resolution por Año (porcentaje)</CardTitle>
+            </CardHeader>
+            <CardContent className="h-72">
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={series.slaResolutionByYear}>
+                  <CartesianGrid stroke={UI.grid} />
+                  <XAxis dataKey="year" />
+                  <YAxis domain={[0, 100]} tickFormatter={(v) => `${v}%`} />
+                  <Tooltip
+                    formatter={(v: any, n: any) => [`${Number(v).toFixed(2)}%`, n]}
+                    labelFormatter={(l) => `Año ${l}`}
+                  />
+                  <Legend />
+                  <Bar dataKey="CumplidoPct" name="Cumplido" stackId="a" fill={UI.primary} />
+                  <Bar dataKey="IncumplidoPct" name="Incumplido" stackId="a" fill={UI.warning} />
+                </BarChart>
+              </ResponsiveContainer>
+            </CardContent>
+          </Card>
+
           <Card className={UI.card}>
             <CardHeader>
               <CardTitle className={UI.title}>CSAT promedio por Año</CardTitle>
@@ -2418,10 +6992,148 @@ export default function JiraExecutiveDashboard() {
           </Card>
         </div>
 
+        {firstResponseMetrics.overall.tickets ? (
+          <div className="mt-3 grid grid-cols-1 gap-3 md:grid-cols-2">
+            <Card className={UI.card}>
+              <CardHeader className="pb-2">
+                <div className="flex flex-col gap-2 md:flex-row md:items-start md:justify-between">
+                  <div>
+                    <CardTitle className={UI.title}>Distribución SLA Response (holgura al responder)</CardTitle>
+                    <p className={"mt-1 " + UI.subtle}>
+                      Horas restantes al primer contacto (negativo = vencido). pXX = holgura que alcanzó al menos el
+                      XX% de los tickets.
+                    </p>
+                  </div>
+                  <label className={"flex items-center gap-2 " + UI.subtle}>
+                    Margen en riesgo (h)
+                    <Input
+                      type="number"
+                      className="w-20"
+                      min={0.25}
+                      step={0.25}
+                      value={slaRiskMarginHours}
+                      onChange={(e) => {
+                        const v = Number(e.target.value);
+                        if (!Number.isFinite(v) || v <= 0) return;
+                        setSlaRiskMarginHours(v);
+                        storeJson(SLA_RISK_MARGIN_STORAGE_KEY, v);
+                      }}
+                    />
+                  </label>
+                </div>
+                <div className="mt-2 flex flex-wrap gap-2 text-xs">
+                  {(
+                    [
+                      ["Holgura mediana", firstResponseMetrics.overall.slack50, "50%"],
+                      ["Holgura mín. 90%", firstResponseMetrics.overall.slack10, "90%"],
+                      ["Holgura mín. 95%", firstResponseMetrics.overall.slack5, "95%"],
+                    ] as const
+                  ).map(([label, value, share]) => (
+                    <span
+                      key={label}
+                      className="rounded-full bg-slate-100 px-2 py-0.5 text-slate-700"
+                      title={`El ${share} de los tickets respondió con al menos ${formatHours(value)} de holgura`}
+                    >
+                      {label}: {formatHours(value)}
+                    </span>
+                  ))}
+                  <span className="rounded-full px-2 py-0.5 text-white" style={{ backgroundColor: UI.warning }}>
+                    En riesgo: {formatInt(firstResponseMetrics.overall.atRisk)} (
+                    {formatPct(pct(firstResponseMetrics.overall.atRisk, firstResponseMetrics.overall.tickets))})
+                  </span>
+                  <span className="rounded-full px-2 py-0.5 text-white" style={{ backgroundColor: UI.danger }}>
+                    Incumplidos: {formatInt(firstResponseMetrics.overall.breached)} (
+                    {formatPct(pct(firstResponseMetrics.overall.breached, firstResponseMetrics.overall.tickets))})
+                  </span>
+                </div>
+              </CardHeader>
+              <CardContent className="h-64">
+                <ResponsiveContainer width="100%" height="100%">
+                  <BarChart data={firstResponseMetrics.histogram}>
+                    <CartesianGrid stroke={UI.grid} />
+                    <XAxis dataKey="label" interval={0} tick={{ fontSize: 10 }} />
+                    <YAxis allowDecimals={false} />
+                    <Tooltip formatter={(v: any) => [formatInt(Number(v)), "Tickets"]} />
+                    <Bar dataKey="tickets" name="Tickets">
+                      {firstResponseMetrics.histogram.map((b) => (
+                        <Cell
+                          key={b.label}
+                          fill={b.max <= 0 ? UI.danger : b.min < slaRiskMarginHours ? UI.warning : UI.primary}
+                        />
+                      ))}
+                    </Bar>
+                  </BarChart>
+                </ResponsiveContainer>
+              </CardContent>
+            </Card>
+
+            <Card className={UI.card}>
+              <CardHeader className="pb-2">
+                <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                  <CardTitle className={UI.title}>Percentiles de holgura SLA Response</CardTitle>
+                  <select
+                    className="md:w-56"
+                    value={slackGroup}
+                    onChange={(e) => setSlackGroup(e.target.value as typeof slackGroup)}
+                  >
+                    <option value="month">Mes</option>
+                    <option value="organization">Organización</option>
+                  </select>
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-72 overflow-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="p-2 border border-slate-200 bg-slate-50">
+                          {slackGroup === "month" ? "Mes" : "Organización"}
+                        </th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Con SLA</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Mediana</th>
+                        <th
+                          className="p-2 border border-slate-200 bg-slate-50 text-right"
+                          title="Holgura que alcanzó al menos el 90% de los tickets"
+                        >
+                          Mín. 90%
+                        </th>
+                        <th
+                          className="p-2 border border-slate-200 bg-slate-50 text-right"
+                          title="Holgura que alcanzó al menos el 95% de los tickets"
+                        >
+                          Mín. 95%
+                        </th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">En riesgo</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Incumplidos</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {firstResponseMetrics.groups[slackGroup].map((g) => (
+                        <tr key={g.name}>
+                          <td className="p-2 border border-slate-200">
+                            {slackGroup === "month" ? monthLabel(g.name) : g.name}
+                          </td>
+                          <td className="p-2 border border-slate-200 text-right">{formatInt(g.tickets)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatHours(g.slack50)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatHours(g.slack10)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatHours(g.slack5)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatInt(g.atRisk)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatInt(g.breached)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </div>
+        ) : null}
+
         <div className="mt-6 grid grid-cols-1 gap-3 md:grid-cols-2">
           <Card className={UI.card}>
             <CardHeader>
               <CardTitle className={UI.title}>Top 10 Organizaciones (torta) + Otros</CardTitle>
+              <p className={"mt-1 " + UI.subtle}>Clic en una organización para abrir su ficha.</p>
             </CardHeader>
             <CardContent className="h-80">
               <ResponsiveContainer width="100%" height="100%">
@@ -2431,6 +7143,8 @@ export default function JiraExecutiveDashboard() {
                     data={series.topOrgsPie}
                     dataKey="tickets"
                     nameKey="name"
+                    className="cursor-pointer"
+                    onClick={(d: any) => d && d.name && d.name !== "Otros" && openOrgScorecard(d.name)}
                     outerRadius={100}
                     innerRadius={45}
                     paddingAngle={2}
@@ -2463,6 +7177,228 @@ export default function JiraExecutiveDashboard() {
           </Card>
         </div>
 
+        <div className="mt-6 grid grid-cols-1 gap-3">
+          <Card className={UI.card}>
+            <CardHeader>
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <CardTitle className={UI.title}>Desglose por {dimensionBreakdown.dim.label.toLowerCase()}</CardTitle>
+                <select
+                  className="md:w-56"
+                  value={breakdownDimension}
+                  onChange={(e) => setBreakdownDimension(e.target.value as DimensionKey)}
+                >
+                  {ROW_DIMENSIONS.map(({ key, label }) => (
+                    <option key={key} value={key}>
+                      {label}
+                    </option>
+                  ))}
+                </select>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="grid grid-cols-1 gap-4 md:grid-cols-3">
+                <div className="h-72 md:col-span-2">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <BarChart data={dimensionBreakdown.monthly}>
+                      <CartesianGrid stroke={UI.grid} />
+                      <XAxis dataKey="month" tickFormatter={(m) => monthLabel(String(m))} />
+                      <YAxis />
+                      <Tooltip labelFormatter={(l) => monthLabel(String(l))} />
+                      <Legend />
+                      {dimensionBreakdown.top.map((name, i) => (
+                        <Bar key={name} dataKey={name} stackId="d" fill={PIE_COLORS[i % (PIE_COLORS.length - 1)]} />
+                      ))}
+                      {dimensionBreakdown.hasOthers ? (
+                        <Bar dataKey="Otros" stackId="d" fill={PIE_COLORS[PIE_COLORS.length - 1]} />
+                      ) : null}
+                    </BarChart>
+                  </ResponsiveContainer>
+                </div>
+                <div className="max-h-72 overflow-auto">
+                  <table className="w-full border-collapse text-sm">
+                    <thead>
+                      <tr className="text-left">
+                        <th className="p-2 border border-slate-200 bg-slate-50">{dimensionBreakdown.dim.label}</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">Tickets</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">% vista</th>
+                        <th className="p-2 border border-slate-200 bg-slate-50 text-right">SLA OK</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {dimensionBreakdown.ranked.map((x) => (
+                        <tr key={x.name}>
+                          <td className="p-2 border border-slate-200">{x.name}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatInt(x.tickets)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatPct(x.share)}</td>
+                          <td className="p-2 border border-slate-200 text-right">{formatPct(x.respOkPct)}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </div>
+              <p className={"mt-2 " + UI.subtle}>
+                Últimos 12 meses de la vista, top {PIE_COLORS.length - 1} valores + Otros.
+                {dimensionBreakdown.multiValue
+                  ? " Un ticket con varios valores cuenta en cada uno (los porcentajes pueden sumar más de 100%)."
+                  : ""}
+              </p>
+            </CardContent>
+          </Card>
+        </div>
+
+        {/* Horario Guardia */}
+        <div className="mt-6">
+          <Card className={UI.card}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className={UI.title}>Análisis Horario Guardia</CardTitle>
+                  <p className={"mt-1 " + UI.subtle}>
+                    {formatInt(kpis.totalGuard)} tickets y {formatInt(kpis.linkedGuard)} HDI fuera del horario hábil
+                    configurado ({formatPct(pct(kpis.totalGuard, kpis.total))} de la vista).
+                  </p>
+                </div>
+                <Button
+                  className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                  disabled={!filtered.length}
+                  onClick={() => setShowGuardReport((prev) => !prev)}
+                >
+                  {showGuardReport ? "Ocultar análisis" : "Ver análisis y costo"}
+                </Button>
+              </div>
+            </CardHeader>
+            {showGuardReport && filtered.length ? (
+              <CardContent>
+                <GuardShiftReport
+                  rows={filtered}
+                  teamRows={includedRows}
+                  isNormalSchedule={isNormalSchedule}
+                  costModel={guardCostModel}
+                  onCostModelChange={updateGuardCostModel}
+                />
+              </CardContent>
+            ) : null}
+          </Card>
+        </div>
+
+        {/* HDI vinculados */}
+        <div className="mt-3">
+          <Card className={UI.card}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className={UI.title}>Incidentes HDI vinculados</CardTitle>
+                  <p className={"mt-1 " + UI.subtle}>
+                    {formatInt(kpis.linkedTickets)} HDI referenciados por tickets de la vista: tickets generados,
+                    organizaciones afectadas, horario de primera aparición y exceso de tickets sobre la línea base.
+                  </p>
+                </div>
+                <Button
+                  className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                  disabled={!kpis.linkedTickets}
+                  onClick={() => setShowHdiExplorer((prev) => !prev)}
+                >
+                  {showHdiExplorer ? "Ocultar HDI" : "Explorar HDI"}
+                </Button>
+              </div>
+            </CardHeader>
+            {showHdiExplorer && kpis.linkedTickets ? (
+              <CardContent>
+                <HdiExplorer rows={filtered} isNormalSchedule={isNormalSchedule} />
+              </CardContent>
+            ) : null}
+          </Card>
+        </div>
+
+        {/* Antigüedad del backlog */}
+        <div className="mt-3">
+          <Card className={UI.card}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className={UI.title}>Antigüedad del backlog</CardTitle>
+                  <p className={"mt-1 " + UI.subtle}>
+                    {formatInt(backlogAging?.aging.tickets.length ?? 0)} tickets abiertos o en espera, por tramo de
+                    antigüedad (0–2d, 3–7d, 8–30d, 30d+) y estado, organización o asignado.
+                  </p>
+                </div>
+                <Button
+                  className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                  disabled={!backlogAging}
+                  onClick={() => setShowBacklogAging((prev) => !prev)}
+                >
+                  {showBacklogAging ? "Ocultar antigüedad" : "Ver antigüedad"}
+                </Button>
+              </div>
+            </CardHeader>
+            {showBacklogAging && backlogAging ? (
+              <CardContent>
+                <BacklogAgingReport aging={backlogAging.aging} asOfDate={backlogAging.asOfDate} />
+              </CardContent>
+            ) : null}
+          </Card>
+        </div>
+
+        {/* Historial de snapshots */}
+        <div className="mt-3">
+          <Card className={UI.card}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className={UI.title}>Historial de snapshots</CardTitle>
+                  <p className={"mt-1 " + UI.subtle}>
+                    {formatInt(snapshotHistory.points.length)} exports Jira con fecha de snapshot: backlog en cada
+                    fecha, transiciones de estado y reaperturas entre fotos consecutivas.
+                  </p>
+                </div>
+                <Button
+                  className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                  onClick={() => setShowSnapshotHistory((prev) => !prev)}
+                >
+                  {showSnapshotHistory ? "Ocultar historial" : "Ver historial"}
+                </Button>
+              </div>
+            </CardHeader>
+            {showSnapshotHistory ? (
+              <CardContent>
+                <SnapshotHistoryReport history={snapshotHistory} />
+              </CardContent>
+            ) : null}
+          </Card>
+        </div>
+
+        {/* Changelog: reaperturas y tiempo en estado */}
+        <div className="mt-3">
+          <Card className={UI.card}>
+            <CardHeader className="pb-2">
+              <div className="flex flex-col gap-2 md:flex-row md:items-center md:justify-between">
+                <div>
+                  <CardTitle className={UI.title}>Reaperturas y tiempo en estado (changelog)</CardTitle>
+                  <p className={"mt-1 " + UI.subtle}>
+                    {changelog
+                      ? `${changelog.fileName}: ${formatInt(changelogMetrics?.overall.tickets ?? 0)} tickets de la ` +
+                        "vista con historial de estados."
+                      : "Importa el changelog Jira (key, desde, hacia, fecha) con el botón Changelog para medirlo."}
+                  </p>
+                </div>
+                <Button
+                  className="bg-white text-slate-700 border border-slate-200 hover:bg-slate-50"
+                  disabled={!changelogMetrics}
+                  onClick={() => setShowChangelog((prev) => !prev)}
+                >
+                  {showChangelog ? "Ocultar changelog" : "Ver changelog"}
+                </Button>
+              </div>
+            </CardHeader>
+            {showChangelog && changelogMetrics ? (
+              <CardContent>
+                <ChangelogReport metrics={changelogMetrics} />
+              </CardContent>
+            ) : null}
+          </Card>
+        </div>
+
         {/* Heatmaps */}
         <div className="mt-6 grid grid-cols-1 gap-3">
           <Card className={UI.card}>
@@ -2572,10 +7508,23 @@ export default function JiraExecutiveDashboard() {
           Sugerencia: aplica enfoque Pareto 80/20 sobre Top Organizaciones/Asignados para reducir demanda recurrente.
         </div>
 
-        <div className="mt-6">
+        <div className="mt-6" id="executive-report">
           <Card className="rounded-xl border border-[#ff9f1a]/60 bg-gradient-to-br from-[#03133f] via-[#081d4d] to-[#1a2140] text-white shadow-lg shadow-[#020b26]/50">
             <CardHeader>
               <div className="flex flex-col gap-3 md:flex-row md:items-start md:justify-end">
+                {filtersBeforeClientReport ? (
+                  <div className="flex items-center gap-2 self-start text-xs text-slate-200 md:mr-auto">
+                    <span>
+                      {executiveText.clientReport}: {filtersBeforeClientReport.organization}
+                    </span>
+                    <Button
+                      className="border border-slate-400/60 bg-transparent text-white hover:bg-white/10"
+                      onClick={restoreFiltersBeforeClientReport}
+                    >
+                      {executiveText.backToView}
+                    </Button>
+                  </div>
+                ) : null}
                 <Button
                   className="self-start border border-orange-300/50 bg-gradient-to-r from-[#ff8f2b] to-[#ff7600] text-white shadow-sm shadow-[#ff7600]/40 hover:from-[#ff9c43] hover:to-[#ff8b1f]"
                   disabled={!filtered.length}
@@ -2686,6 +7635,29 @@ export default function JiraExecutiveDashboard() {
                     <div className="rounded-lg border border-[#2f4f84] bg-[#0d2558] p-3">
                       <div className="mb-1 font-semibold text-slate-100">3️⃣ {executiveText.quality}</div>
                       <p className="text-xs">{executiveText.qualityDesc}</p>
+                      {executiveReportData.reopenRate ? (
+                        <div className="mt-2 text-xs">
+                          <span className="font-semibold text-slate-100">{executiveText.reopenRate}:</span>{" "}
+                          <span className="font-semibold text-[#39d5c8]">
+                            {formatPct(executiveReportData.reopenRate.rate)}
+                          </span>{" "}
+                          ({formatInt(executiveReportData.reopenRate.reopened)}/
+                          {formatInt(executiveReportData.reopenRate.resolved)})
+                        </div>
+                      ) : null}
+                      {executiveReportData.reopens ? (
+                        <div className="mt-2 text-xs">
+                          <span className="font-semibold text-slate-100">{executiveText.reopens}:</span>{" "}
+                          <span className="font-semibold text-[#39d5c8]">
+                            {formatInt(executiveReportData.reopens.current)}
+                          </span>
+                          {executiveReportData.reopens.keys.length ? (
+                            <div className="mt-1 text-slate-300">{executiveReportData.reopens.keys.join(", ")}</div>
+                          ) : null}
+                        </div>
+                      ) : executiveReportData.reopenRate ? null : (
+                        <p className="mt-2 text-xs text-slate-300">{executiveText.noSnapshots}</p>
+                      )}
                     </div>
                     <div className="rounded-lg border border-[#2f4f84] bg-[#0d2558] p-3">
                       <div className="mb-1 font-semibold text-slate-100">4️⃣ {executiveText.actionPlan}</div>
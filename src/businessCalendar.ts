@@ -0,0 +1,174 @@
+/**
+ * Calendario hábil: horario por día de semana + feriados importados (ICS o CSV).
+ *
+ * Clasifica tickets (y HDI vinculados) en horario Normal vs Guardia: Normal = día con
+ * horario habilitado, que no es feriado de un calendario activo, dentro de [inicio, fin).
+ */
+import Papa from "papaparse";
+
+export type DaySchedule = { enabled: boolean; startHour: number; endHour: number };
+
+// Índice = weekday (0=dom, 6=sáb)
+export type BusinessSchedule = DaySchedule[];
+
+export type Holiday = { date: string; name: string }; // date: YYYY-MM-DD
+
+export type HolidayCalendar = {
+  id: string;
+  name: string;
+  enabled: boolean;
+  holidays: Holiday[];
+};
+
+export type BusinessCalendar = {
+  schedule: BusinessSchedule;
+  calendars: HolidayCalendar[];
+};
+
+// Horario histórico: lunes a viernes 06:00-23:00
+export const DEFAULT_SCHEDULE: BusinessSchedule = [0, 1, 2, 3, 4, 5, 6].map((day) => ({
+  enabled: day >= 1 && day <= 5,
+  startHour: 6,
+  endHour: 23,
+}));
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = { schedule: DEFAULT_SCHEDULE, calendars: [] };
+
+export const WEEKDAY_LABELS = ["Domingo", "Lunes", "Martes", "Miércoles", "Jueves", "Viernes", "Sábado"];
+
+export function isIsoDate(value: string) {
+  if (!/^\d{4}-\d{2}-\d{2}$/.test(value)) return false;
+  const [y, m, d] = value.split("-").map(Number);
+  const dt = new Date(Date.UTC(y, m - 1, d));
+  return dt.getUTCFullYear() === y && dt.getUTCMonth() === m - 1 && dt.getUTCDate() === d;
+}
+
+// YYYY-MM-DD, DD/MM/YYYY o DD-MM-YYYY; null si viene vacío, undefined si es inválido
+export function parseDayDate(value: any) {
+  const s = String(value ?? "").trim();
+  if (!s) return null;
+  if (isIsoDate(s)) return s;
+  const dmy = s.match(/^(\d{1,2})[/-](\d{1,2})[/-](\d{4})$/);
+  if (!dmy) return undefined;
+  const iso = `${dmy[3]}-${dmy[2].padStart(2, "0")}-${dmy[1].padStart(2, "0")}`;
+  return isIsoDate(iso) ? iso : undefined;
+}
+
+export function normalizeHeader(h: string) {
+  return String(h || "")
+    .trim()
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .replace(/[^a-z0-9]/g, "");
+}
+
+export function holidayDates(calendar: BusinessCalendar) {
+  const dates = new Set<string>();
+  calendar.calendars.forEach((c) => {
+    if (c.enabled) c.holidays.forEach((h) => dates.add(h.date));
+  });
+  return dates;
+}
+
+export function isWorkingDay(date: string, weekday: number, schedule: BusinessSchedule, holidays: Set<string>) {
+  return Boolean(schedule[weekday]?.enabled) && !holidays.has(date);
+}
+
+export function isNormalSchedule(
+  r: { date: string; weekday: number; hour: number },
+  schedule: BusinessSchedule,
+  holidays: Set<string>
+) {
+  if (!isWorkingDay(r.date, r.weekday, schedule, holidays)) return false;
+  const day = schedule[r.weekday];
+  return r.hour >= day.startHour && r.hour < day.endHour;
+}
+
+export function newCalendarId() {
+  return `cal-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function dedupeHolidays(holidays: Holiday[]) {
+  const m = new Map<string, Holiday>();
+  holidays.forEach((h) => m.set(h.date, h));
+  return Array.from(m.values()).sort((a, b) => a.date.localeCompare(b.date));
+}
+
+// CSV: fecha, nombre (opcional)
+export function parseHolidayCsv(text: string) {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = res.meta.fields || [];
+  const findHeader = (candidates: string[]) => headers.find((h) => candidates.includes(normalizeHeader(h)));
+  const dateHeader = findHeader(["fecha", "date", "dia", "data"]) ?? headers[0];
+  const nameHeader = findHeader(["nombre", "name", "feriado", "holiday", "descripcion", "description"]) ?? headers[1];
+
+  const holidays: Holiday[] = [];
+  let skipped = 0;
+  res.data.forEach((r: Record<string, any>) => {
+    const date = parseDayDate(r[dateHeader]);
+    if (!date) {
+      skipped++;
+      return;
+    }
+    holidays.push({ date, name: String((nameHeader && r[nameHeader]) ?? "").trim() });
+  });
+  return { holidays: dedupeHolidays(holidays), skipped };
+}
+
+function icsDate(value: string) {
+  const m = String(value || "").match(/(\d{4})(\d{2})(\d{2})/);
+  if (!m) return null;
+  const iso = `${m[1]}-${m[2]}-${m[3]}`;
+  return isIsoDate(iso) ? iso : null;
+}
+
+export function shiftIsoDate(date: string, days: number) {
+  const [y, m, d] = date.split("-").map(Number);
+  return new Date(Date.UTC(y, m - 1, d + days)).toISOString().slice(0, 10);
+}
+
+// ICS: un feriado por VEVENT (DTEND de día completo es exclusivo => se expanden los días intermedios)
+export function parseHolidayIcs(text: string) {
+  const lines = String(text || "")
+    .replace(/\r\n[ \t]/g, "")
+    .replace(/\n[ \t]/g, "")
+    .split(/\r?\n/);
+
+  const holidays: Holiday[] = [];
+  let skipped = 0;
+  let event: { start: string | null; end: string | null; name: string } | null = null;
+  lines.forEach((line) => {
+    const sep = line.indexOf(":");
+    const prop = (sep >= 0 ? line.slice(0, sep) : line).split(";")[0].toUpperCase();
+    const value = sep >= 0 ? line.slice(sep + 1).trim() : "";
+    if (prop === "BEGIN" && value.toUpperCase() === "VEVENT") {
+      event = { start: null, end: null, name: "" };
+      return;
+    }
+    if (!event) return;
+    if (prop === "DTSTART") event.start = icsDate(value);
+    if (prop === "DTEND") event.end = icsDate(value);
+    if (prop === "SUMMARY") event.name = value.replace(/\\([,;\\])/g, "$1");
+    if (prop !== "END" || value.toUpperCase() !== "VEVENT") return;
+
+    if (!event.start) skipped++;
+    else {
+      let date = event.start;
+      holidays.push({ date, name: event.name });
+      // Tope defensivo para eventos mal formados
+      for (let i = 0; i < 31 && event.end && shiftIsoDate(date, 1) < event.end; i++) {
+        date = shiftIsoDate(date, 1);
+        holidays.push({ date, name: event.name });
+      }
+    }
+    event = null;
+  });
+  return { holidays: dedupeHolidays(holidays), skipped };
+}
+
+export function parseHolidayFile(fileName: string, text: string) {
+  return /\.ics$/i.test(fileName) || /BEGIN:VCALENDAR/i.test(text.slice(0, 200))
+    ? parseHolidayIcs(text)
+    : parseHolidayCsv(text);
+}
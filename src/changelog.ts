@@ -0,0 +1,175 @@
+/**
+ * Changelog Jira (historial de estados): una fila por transición key, desde, hacia, fecha.
+ *
+ * Se cruza con `Row.key` para medir reaperturas (cerrado → abierto/en espera), tiempo en cada
+ * estado y ping-pong (A → B seguido de B → A en el mismo ticket).
+ */
+import Papa from "papaparse";
+import { normalizeHeader } from "@/businessCalendar";
+import { parseCreated, type Row } from "@/ingest";
+import { percentile } from "@/stats";
+import { isBacklogCategory, isClosedCategory, statusKey, type StatusCategory } from "@/statusTaxonomy";
+
+export type ChangelogEvent = { key: string; from: string; to: string; at: Date };
+
+// CSV: key, desde, hacia, fecha (fechas sin offset en la zona del export Jira)
+export function parseChangelogCsv(text: string, sourceTimeZone = "local") {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = res.meta.fields || [];
+  const findHeader = (candidates: string[]) => headers.find((h) => candidates.includes(normalizeHeader(h)));
+  const keyHeader = findHeader(["key", "issuekey", "clave", "clavedeincidencia", "incidencia", "issue"]) ?? headers[0];
+  const fromHeader = findHeader(["from", "fromstatus", "desde", "estadoanterior", "de"]) ?? headers[1];
+  const toHeader = findHeader(["to", "tostatus", "hacia", "estadonuevo", "para"]) ?? headers[2];
+  const atHeader = findHeader(["timestamp", "fecha", "date", "created", "changed", "cambio", "data"]) ?? headers[3];
+
+  const events: ChangelogEvent[] = [];
+  let skipped = 0;
+  res.data.forEach((r: Record<string, any>) => {
+    const key = String(r[keyHeader] ?? "").trim();
+    const to = String(r[toHeader] ?? "").trim();
+    const at = atHeader ? parseCreated(String(r[atHeader] ?? ""), sourceTimeZone) : null;
+    if (!key || !to || !at) {
+      skipped++;
+      return;
+    }
+    events.push({ key, from: String(r[fromHeader] ?? "").trim(), to, at });
+  });
+  return { events, skipped };
+}
+
+// Transiciones de cada ticket en orden cronológico (el CSV puede venir en cualquier orden)
+export function groupChangelogByKey(events: ChangelogEvent[]) {
+  const byKey = new Map<string, ChangelogEvent[]>();
+  events.forEach((e) => {
+    const list = byKey.get(e.key);
+    if (list) list.push(e);
+    else byKey.set(e.key, [e]);
+  });
+  byKey.forEach((list) => list.sort((a, b) => a.at.getTime() - b.at.getTime()));
+  return byKey;
+}
+
+export type TicketHistory = {
+  resolved: boolean; // alguna vez llegó a un estado cerrado
+  reopens: number;
+  pingPongs: number;
+  hoursByStatus: Map<string, { status: string; hours: number }>; // por statusKey
+};
+
+/**
+ * Recorre las transiciones de un ticket. El estado inicial (`from` de la primera) corre desde `creada`;
+ * el último estado suma hasta `asOf` solo si sigue abierto (un cerrado no acumula tiempo).
+ */
+export function ticketHistory(
+  r: Row,
+  events: ChangelogEvent[],
+  statusCategoryOf: (estado: string) => StatusCategory,
+  asOf: Date
+): TicketHistory {
+  const hoursByStatus = new Map<string, { status: string; hours: number }>();
+  const addHours = (status: string, from: Date, to: Date) => {
+    const hours = (to.getTime() - from.getTime()) / 3600000;
+    if (!status || !(hours > 0)) return;
+    const cur = hoursByStatus.get(statusKey(status)) || { status, hours: 0 };
+    cur.hours += hours;
+    hoursByStatus.set(statusKey(status), cur);
+  };
+
+  let resolved = isClosedCategory(statusCategoryOf(r.estado));
+  let reopens = 0;
+  let pingPongs = 0;
+  let since = r.creada;
+  events.forEach((e, i) => {
+    addHours(e.from, since, e.at);
+    since = e.at;
+    if (isClosedCategory(statusCategoryOf(e.to))) resolved = true;
+    if (isClosedCategory(statusCategoryOf(e.from)) && isBacklogCategory(statusCategoryOf(e.to))) reopens++;
+    const prev = i > 0 ? events[i - 1] : null;
+    if (prev && statusKey(prev.from) === statusKey(e.to) && statusKey(prev.to) === statusKey(e.from)) pingPongs++;
+  });
+  const last = events.length ? events[events.length - 1].to : r.estado;
+  if (!isClosedCategory(statusCategoryOf(last))) addHours(last, since, asOf);
+
+  return { resolved, reopens, pingPongs, hoursByStatus };
+}
+
+export type ChangelogGroup = {
+  name: string;
+  tickets: number; // con changelog
+  resolved: number;
+  reopened: number;
+  pingPong: number;
+  reopenRate: number; // % de resueltos que se reabrieron
+};
+
+export type ChangelogMetrics = {
+  overall: ChangelogGroup;
+  byMonth: ChangelogGroup[];
+  byOrganization: ChangelogGroup[];
+  timeInStatus: Array<{ status: string; tickets: number; medianHours: number; totalHours: number }>;
+  flagged: Array<{ row: Row; reopens: number; pingPongs: number }>;
+};
+
+// Solo tickets de `rowsSubset` con al menos una transición en el changelog
+export function buildChangelogMetrics(
+  rowsSubset: Row[],
+  byKey: Map<string, ChangelogEvent[]>,
+  statusCategoryOf: (estado: string) => StatusCategory,
+  asOf: Date
+): ChangelogMetrics {
+  const histories = rowsSubset
+    .filter((r) => r.key && byKey.has(r.key))
+    .map((r) => ({ row: r, history: ticketHistory(r, byKey.get(r.key)!, statusCategoryOf, asOf) }));
+
+  const group = (name: string, items: typeof histories): ChangelogGroup => {
+    const resolved = items.filter((x) => x.history.resolved).length;
+    const reopened = items.filter((x) => x.history.reopens > 0).length;
+    return {
+      name,
+      tickets: items.length,
+      resolved,
+      reopened,
+      pingPong: items.filter((x) => x.history.pingPongs > 0).length,
+      reopenRate: resolved ? (reopened / resolved) * 100 : 0,
+    };
+  };
+  const groupBy = (nameOf: (r: Row) => string) => {
+    const m = new Map<string, typeof histories>();
+    histories.forEach((x) => {
+      const name = nameOf(x.row);
+      const list = m.get(name);
+      if (list) list.push(x);
+      else m.set(name, [x]);
+    });
+    return Array.from(m.entries()).map(([name, items]) => group(name, items));
+  };
+
+  const hoursByStatus = new Map<string, { status: string; hours: number[] }>();
+  histories.forEach(({ history }) => {
+    history.hoursByStatus.forEach((v, k) => {
+      const cur = hoursByStatus.get(k) || { status: v.status, hours: [] };
+      cur.hours.push(v.hours);
+      hoursByStatus.set(k, cur);
+    });
+  });
+
+  return {
+    overall: group("Total", histories),
+    byMonth: groupBy((r) => r.month).sort((a, b) => a.name.localeCompare(b.name)),
+    byOrganization: groupBy((r) => r.organization || "(Sin organización)").sort(
+      (a, b) => b.reopened - a.reopened || b.tickets - a.tickets || a.name.localeCompare(b.name)
+    ),
+    timeInStatus: Array.from(hoursByStatus.values())
+      .map(({ status, hours }) => ({
+        status,
+        tickets: hours.length,
+        medianHours: percentile(hours, 50) ?? 0,
+        totalHours: hours.reduce((sum, h) => sum + h, 0),
+      }))
+      .sort((a, b) => b.totalHours - a.totalHours),
+    flagged: histories
+      .filter((x) => x.history.reopens > 0 || x.history.pingPongs > 0)
+      .map((x) => ({ row: x.row, reopens: x.history.reopens, pingPongs: x.history.pingPongs }))
+      .sort((a, b) => b.reopens + b.pingPongs - (a.reopens + a.pingPongs) || a.row.key.localeCompare(b.row.key)),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * Persistencia de datasets importados (IndexedDB).
+ *
+ * - "datasets": metadatos livianos (para listar sin cargar filas).
+ * - "datasetRows": filas parseadas (`Row[]` / `JanisRow[]`, las fechas se guardan como Date).
+ * - "session": dataset activo por tipo + filtros, restaurados al recargar.
+ */
+import type { JanisRow, Row } from "@/ingest";
+
+const DB_NAME = "janis-care";
+const DB_VERSION = 1;
+const META_STORE = "datasets";
+const ROWS_STORE = "datasetRows";
+const SESSION_STORE = "session";
+const SESSION_KEY = "current";
+
+export type DatasetKind = "jira" | "janis";
+
+export type StoredDatasetMeta = {
+  id: string;
+  kind: DatasetKind;
+  fileName: string;
+  importedAt: string; // ISO
+  rowCount: number;
+  // Fecha de la foto (YYYY-MM-DD) para el historial de snapshots; ausente si no se etiquetó
+  snapshotDate?: string;
+};
+
+export type StoredSession = {
+  activeJiraId: string | null;
+  activeJanisId: string | null;
+  fromMonth: string;
+  toMonth: string;
+  orgFilter: string[];
+  assigneeFilter: string;
+  statusFilter: string;
+  // Ausente en sesiones guardadas antes de existir los filtros por dimensión
+  dimensionFilters?: Record<string, string>;
+};
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+function openDb() {
+  if (!dbPromise) {
+    dbPromise = new Promise<IDBDatabase>((resolve, reject) => {
+      if (typeof indexedDB === "undefined") {
+        reject(new Error("IndexedDB no está disponible en este navegador."));
+        return;
+      }
+      const req = indexedDB.open(DB_NAME, DB_VERSION);
+      req.onupgradeneeded = () => {
+        const db = req.result;
+        if (!db.objectStoreNames.contains(META_STORE)) db.createObjectStore(META_STORE, { keyPath: "id" });
+        if (!db.objectStoreNames.contains(ROWS_STORE)) db.createObjectStore(ROWS_STORE);
+        if (!db.objectStoreNames.contains(SESSION_STORE)) db.createObjectStore(SESSION_STORE);
+      };
+      req.onsuccess = () => resolve(req.result);
+      req.onerror = () => reject(req.error);
+    });
+    // Permite reintentar si la apertura falla (p.ej. modo privado)
+    dbPromise.catch(() => {
+      dbPromise = null;
+    });
+  }
+  return dbPromise;
+}
+
+function requestResult<T>(req: IDBRequest<T>) {
+  return new Promise<T>((resolve, reject) => {
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  });
+}
+
+function transactionDone(tx: IDBTransaction) {
+  return new Promise<void>((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+}
+
+export function newDatasetId(kind: DatasetKind) {
+  return `${kind}-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 8)}`;
+}
+
+export async function listDatasets() {
+  const db = await openDb();
+  const all = await requestResult(db.transaction(META_STORE).objectStore(META_STORE).getAll());
+  return (all as StoredDatasetMeta[]).sort((a, b) => b.importedAt.localeCompare(a.importedAt));
+}
+
+export async function saveDataset(meta: StoredDatasetMeta, rows: Row[] | JanisRow[]) {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, ROWS_STORE], "readwrite");
+  tx.objectStore(META_STORE).put(meta);
+  tx.objectStore(ROWS_STORE).put(rows, meta.id);
+  await transactionDone(tx);
+}
+
+export async function updateDatasetMeta(meta: StoredDatasetMeta) {
+  const db = await openDb();
+  const tx = db.transaction(META_STORE, "readwrite");
+  tx.objectStore(META_STORE).put(meta);
+  await transactionDone(tx);
+}
+
+export async function loadDatasetRows<T extends Row | JanisRow>(id: string) {
+  const db = await openDb();
+  const rows = await requestResult(db.transaction(ROWS_STORE).objectStore(ROWS_STORE).get(id));
+  return (rows as T[] | undefined) ?? null;
+}
+
+export async function deleteDataset(id: string) {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, ROWS_STORE], "readwrite");
+  tx.objectStore(META_STORE).delete(id);
+  tx.objectStore(ROWS_STORE).delete(id);
+  await transactionDone(tx);
+}
+
+export async function clearDatasets() {
+  const db = await openDb();
+  const tx = db.transaction([META_STORE, ROWS_STORE, SESSION_STORE], "readwrite");
+  tx.objectStore(META_STORE).clear();
+  tx.objectStore(ROWS_STORE).clear();
+  tx.objectStore(SESSION_STORE).clear();
+  await transactionDone(tx);
+}
+
+export async function loadSession() {
+  const db = await openDb();
+  const session = await requestResult(db.transaction(SESSION_STORE).objectStore(SESSION_STORE).get(SESSION_KEY));
+  return (session as StoredSession | undefined) ?? null;
+}
+
+export async function saveSession(session: StoredSession) {
+  const db = await openDb();
+  const tx = db.transaction(SESSION_STORE, "readwrite");
+  tx.objectStore(SESSION_STORE).put(session, SESSION_KEY);
+  await transactionDone(tx);
+}
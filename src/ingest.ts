@@ -0,0 +1,810 @@
+/**
+ * Ingesta de datos Jira / Janis: parsing y normalización a `Row` / `JanisRow`.
+ *
+ * Módulo sin dependencias de React para poder ejecutarse tanto en el hilo
+ * principal como dentro de `ingest.worker.ts`.
+ */
+
+export function coalesce<T, U>(a: T | null | undefined, b: U): T | U {
+  return a === null || a === undefined ? b : a;
+}
+
+// Abreviaturas y nombres completos (es / pt / en) -> índice de mes (0-11)
+const MONTH_TOKENS: Record<string, { month: number; locale: "es" | "pt" | "en" | null }> = (() => {
+  const map: Record<string, { month: number; locale: "es" | "pt" | "en" | null }> = {};
+  const add = (locale: "es" | "pt" | "en", names: string[]) => {
+    names.forEach((name, month) => {
+      const tokens = [name, name.slice(0, 3)];
+      if (name.length > 4) tokens.push(name.slice(0, 4));
+      tokens.forEach((t) => {
+        const prev = map[t];
+        map[t] = { month, locale: prev && prev.locale !== locale ? null : locale };
+      });
+    });
+  };
+  add("es", ["enero", "febrero", "marzo", "abril", "mayo", "junio", "julio", "agosto", "septiembre", "octubre", "noviembre", "diciembre"]);
+  add("pt", ["janeiro", "fevereiro", "marco", "abril", "maio", "junho", "julho", "agosto", "setembro", "outubro", "novembro", "dezembro"]);
+  add("en", ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"]);
+  return map;
+})();
+
+// --- Zonas horarias: "local" = zona del navegador ---
+export type TimeZoneSettings = { source: string; display: string };
+
+const WEEKDAY_SHORT_EN = ["Sun", "Mon", "Tue", "Wed", "Thu", "Fri", "Sat"];
+
+const zonedFormatters = new Map<string, Intl.DateTimeFormat>();
+
+export function zonedParts(d: Date, timeZone: string) {
+  if (!timeZone || timeZone === "local") {
+    return {
+      year: d.getFullYear(),
+      month: d.getMonth() + 1,
+      day: d.getDate(),
+      hour: d.getHours(),
+      minute: d.getMinutes(),
+      second: d.getSeconds(),
+      weekday: d.getDay(),
+    };
+  }
+  let fmt = zonedFormatters.get(timeZone);
+  if (!fmt) {
+    fmt = new Intl.DateTimeFormat("en-US", {
+      timeZone,
+      hourCycle: "h23",
+      year: "numeric",
+      month: "numeric",
+      day: "numeric",
+      hour: "numeric",
+      minute: "numeric",
+      second: "numeric",
+      weekday: "short",
+    });
+    zonedFormatters.set(timeZone, fmt);
+  }
+  const parts: Record<string, string> = {};
+  fmt.formatToParts(d).forEach((p) => {
+    parts[p.type] = p.value;
+  });
+  return {
+    year: Number(parts.year),
+    month: Number(parts.month),
+    day: Number(parts.day),
+    hour: Number(parts.hour) % 24,
+    minute: Number(parts.minute),
+    second: Number(parts.second),
+    weekday: WEEKDAY_SHORT_EN.indexOf(parts.weekday),
+  };
+}
+
+// Hora "de pared" en `timeZone` -> instante (Date). monthIndex 0-11.
+export function zonedWallTimeToDate(
+  year: number,
+  monthIndex: number,
+  day: number,
+  hour: number,
+  minute: number,
+  second: number,
+  timeZone: string
+) {
+  if (!timeZone || timeZone === "local") return new Date(year, monthIndex, day, hour, minute, second, 0);
+  const wall = Date.UTC(year, monthIndex, day, hour, minute, second);
+  const offsetAt = (ts: number) => {
+    const p = zonedParts(new Date(ts), timeZone);
+    return Date.UTC(p.year, p.month - 1, p.day, p.hour, p.minute, p.second) - ts;
+  };
+  // Segunda pasada para resolver correctamente los cambios de horario (DST)
+  const first = wall - offsetAt(wall);
+  return new Date(wall - offsetAt(first));
+}
+
+type ParsedCreated = { date: Date; format: string };
+
+// Fechas REST: 2026-01-19T12:47:00.000-0300 (offset sin ":" no es ISO estricto)
+export function parseJiraIsoDate(value: unknown) {
+  if (!value) return null;
+  const str = String(value).trim().replace(/([+-]\d{2})(\d{2})$/, "$1:$2");
+  const d = new Date(str);
+  return Number.isNaN(d.getTime()) ? null : d;
+}
+
+/**
+ * Formatos soportados para "Creada":
+ * - 19/ene/26 12:47 PM, 19/jan/26 12:47, 19/Jan/2026 00:47:10 (es / pt / en, 12h o 24h)
+ * - ISO-8601: 2026-01-19, 2026-01-19 12:47, 2026-01-19T12:47:00.000-0300
+ * Las fechas sin offset se interpretan en `sourceTimeZone` (zona del export Jira).
+ * Devuelve también el formato detectado para el resumen de importación.
+ */
+export function parseCreatedWithFormat(dateStr: string, sourceTimeZone = "local"): ParsedCreated | null {
+  if (!dateStr) return null;
+  const str = String(dateStr)
+    .trim()
+    .replace(/\b([ap])\.?\s*m\.?$/i, "$1M");
+
+  const iso = str.match(/^(\d{4})-(\d{2})-(\d{2})(?:[T\s](\d{2}):(\d{2})(?::(\d{2})(?:\.\d+)?)?)?(Z|[+-]\d{2}:?\d{2})?$/i);
+  if (iso) {
+    if (iso[7]) {
+      const d = parseJiraIsoDate(str);
+      return d ? { date: d, format: "ISO-8601 (con zona)" } : null;
+    }
+    const d = zonedWallTimeToDate(
+      Number(iso[1]),
+      Number(iso[2]) - 1,
+      Number(iso[3]),
+      Number(iso[4] || 0),
+      Number(iso[5] || 0),
+      Number(iso[6] || 0),
+      sourceTimeZone
+    );
+    return Number.isNaN(d.getTime()) ? null : { date: d, format: "ISO-8601" };
+  }
+
+  // Example: 19/ene/26 12:47 PM
+  const match = str.match(
+    /^(\d{1,2})[\/\-\s]([\p{L}.]+)[\/\-\s](\d{2}|\d{4})\s+(\d{1,2}):(\d{2})(?::(\d{2}))?\s*(AM|PM)?$/iu
+  );
+  if (!match) return null;
+
+  const monthToken = match[2]
+    .toLowerCase()
+    .normalize("NFD")
+    .replace(/[\u0300-\u036f.]/g, "");
+  const mon = MONTH_TOKENS[monthToken];
+  if (!mon) return null;
+
+  const dd = Number(match[1]);
+  const yearRaw = Number(match[3]);
+  const year = match[3].length === 4 ? yearRaw : yearRaw >= 70 ? 1900 + yearRaw : 2000 + yearRaw;
+  const ampm = match[7] ? match[7].toUpperCase() : null;
+
+  let hour = Number(match[4]);
+  if (ampm ? hour < 1 || hour > 12 : hour > 23) return null;
+  if (ampm === "PM" && hour !== 12) hour += 12;
+  if (ampm === "AM" && hour === 12) hour = 0;
+
+  if (new Date(Date.UTC(year, mon.month, dd)).getUTCDate() !== dd) return null;
+  const d = zonedWallTimeToDate(year, mon.month, dd, hour, Number(match[5]), Number(match[6] || 0), sourceTimeZone);
+  if (Number.isNaN(d.getTime())) return null;
+
+  const format = [
+    `dd/MMM/${match[3].length === 4 ? "yyyy" : "yy"}`,
+    ampm ? "hh:mm AM/PM" : "HH:mm",
+    mon.locale ? `(${mon.locale})` : "",
+  ]
+    .filter(Boolean)
+    .join(" ");
+  return { date: d, format };
+}
+
+export function parseCreated(dateStr: string, sourceTimeZone = "local") {
+  const res = parseCreatedWithFormat(dateStr, sourceTimeZone);
+  return res ? res.date : null;
+}
+
+export function ym(date: Date, timeZone = "local") {
+  const p = zonedParts(date, timeZone);
+  const y = p.year;
+  const m = String(p.month).padStart(2, "0");
+  return `${y}-${m}`;
+}
+
+export function parseSlaHours(s: any) {
+  if (s == null) return null;
+  const str = String(s).trim();
+  if (!str) return null;
+
+  // Numeric (e.g., 1.25, -2, -2,5)
+  const numRe = new RegExp("^[+-]?\\d+(?:[\\.,]\\d+)?$");
+  if (numRe.test(str)) {
+    const num = Number(str.replace(",", "."));
+    return Number.isFinite(num) ? num : null;
+  }
+
+  // HH:MM with optional sign (e.g., -0:30)
+  const hmRe = new RegExp("^([+-])?(\\d+)\\s*:\\s*(\\d{1,2})$");
+  const match = str.match(hmRe);
+  if (!match) return null;
+
+  const signChar = match[1] || "+";
+  const hoursAbs = Number(match[2]);
+  const minutesAbs = Number(match[3]);
+  if (!Number.isFinite(hoursAbs) || !Number.isFinite(minutesAbs)) return null;
+
+  const val = hoursAbs + minutesAbs / 60;
+  return signChar === "-" ? -val : val;
+}
+
+export type Row = {
+  key: string;
+  organization: string;
+  estado: string;
+  asignado: string;
+  linkedKeys: string[];
+  creada: Date;
+  // Derivados de `creada` en la zona horaria de visualización
+  year: number;
+  month: string;
+  date: string; // YYYY-MM-DD
+  hour: number;
+  weekday: number; // 0=dom, 6=sáb
+  slaResponseHours: number | null;
+  slaResponseStatus: "Cumplido" | "Incumplido";
+  // SLA "Time to resolution": misma semántica que Response (Incumplido solo si < 0)
+  slaResolutionHours: number | null;
+  slaResolutionStatus: "Cumplido" | "Incumplido";
+  satisfaction: number | null;
+  // Fechas "Resuelta" / "Actualizada" (instantes, misma zona de origen que `creada`)
+  resolvedAt: Date | null;
+  updatedAt: Date | null;
+  // Dimensiones de desglose ("" / [] si la columna no viene en el export)
+  priority: string;
+  issueType: string;
+  requestType: string;
+  labels: string[];
+  components: string[];
+};
+
+// Filas guardadas por versiones anteriores (IndexedDB) pueden no traer los campos nuevos
+export function withRowDefaults(r: Row): Row {
+  return {
+    ...r,
+    slaResolutionHours: r.slaResolutionHours ?? null,
+    slaResolutionStatus: r.slaResolutionStatus ?? "Cumplido",
+    resolvedAt: r.resolvedAt ?? null,
+    updatedAt: r.updatedAt ?? null,
+    priority: r.priority ?? "",
+    issueType: r.issueType ?? "",
+    requestType: r.requestType ?? "",
+    labels: r.labels ?? [],
+    components: r.components ?? [],
+  };
+}
+
+export type JanisRow = {
+  clientCode: string;
+  month: string; // YYYY-MM
+  year: number;
+  totalOrders: number;
+};
+
+// --- Mapeo de columnas Jira ---
+export type MappableField =
+  | "key"
+  | "organization"
+  | "estado"
+  | "asignado"
+  | "creada"
+  | "slaResponse"
+  | "slaResolution"
+  | "satisfaction"
+  | "resolved"
+  | "updated"
+  | "priority"
+  | "issueType"
+  | "requestType"
+  | "labels"
+  | "components";
+
+export type JiraColumnMapping = Record<MappableField, string | null> & {
+  linked: string[];
+};
+
+// Candidatos por defecto (headers en minúscula) usados para pre-llenar el wizard
+export const JIRA_FIELD_CANDIDATES: Record<MappableField, string[]> = {
+  key: ["clave de incidencia", "key", "issue key", "clave"],
+  organization: ["campo personalizado (organizations)", "organizations", "organization", "organisation"],
+  estado: ["estado", "status"],
+  asignado: ["persona asignada", "assignee", "responsable"],
+  creada: ["creada", "created"],
+  slaResponse: [
+    "campo personalizado (time to first response)",
+    "campo personalizado (time to first response).",
+    "custom field (time to first response)",
+    "custom field (time to first response).",
+    "time to first response",
+    "time to first response (hrs)",
+    "sla response",
+    "sla de response",
+  ],
+  slaResolution: [
+    "campo personalizado (time to resolution)",
+    "campo personalizado (time to resolution).",
+    "custom field (time to resolution)",
+    "custom field (time to resolution).",
+    "time to resolution",
+    "time to resolution (hrs)",
+    "sla resolution",
+    "sla de resolución",
+  ],
+  satisfaction: ["calificación de satisfacción", "calificacion de satisfaccion", "satisfaction"],
+  resolved: ["resuelta", "resolved", "fecha de resolución", "fecha de resolucion"],
+  updated: ["actualizada", "updated"],
+  priority: ["prioridad", "priority"],
+  issueType: ["tipo de incidencia", "issue type", "tipo de issue"],
+  requestType: [
+    "campo personalizado (customer request type)",
+    "campo personalizado (request type)",
+    "custom field (customer request type)",
+    "custom field (request type)",
+    "customer request type",
+    "request type",
+    "tipo de solicitud",
+  ],
+  labels: ["etiquetas", "labels"],
+  components: ["componentes", "components", "componente"],
+};
+
+const MAPPABLE_FIELD_KEYS = Object.keys(JIRA_FIELD_CANDIDATES) as MappableField[];
+
+export function isLinkedColumn(header: string) {
+  const key = String(header || "").toLowerCase();
+  return (
+    key.includes("actividades vinculadas") ||
+    key.includes("actividad vinculada") ||
+    key.includes("linked activit") ||
+    key.includes("enlace a la incidencia") ||
+    key.includes("enlace de incidencia")
+  );
+}
+
+export function detectColumnMapping(headers: string[]): JiraColumnMapping {
+  const available = new Set(headers);
+  const pick = (field: MappableField) => JIRA_FIELD_CANDIDATES[field].find((c) => available.has(c)) ?? null;
+  const fields = Object.fromEntries(MAPPABLE_FIELD_KEYS.map((f) => [f, pick(f)])) as Record<MappableField, string | null>;
+  return { ...fields, linked: headers.filter(isLinkedColumn) };
+}
+
+// Firma de headers: independiente del orden de columnas y de duplicados
+export function headerSignature(headers: string[]) {
+  return Array.from(new Set(headers.map((h) => String(h || "").trim().toLowerCase()).filter(Boolean)))
+    .sort()
+    .join("|");
+}
+
+// Aplica un perfil guardado a headers que pueden no coincidir 1:1 (descarta columnas inexistentes).
+// Campos que el perfil no conoce (perfiles anteriores a un campo nuevo) usan la detección por defecto.
+export function mappingForHeaders(mapping: JiraColumnMapping, headers: string[]): JiraColumnMapping {
+  const available = new Set(headers);
+  const detected = detectColumnMapping(headers);
+  const keep = (h: string | null) => (h && available.has(h) ? h : null);
+  const fields = Object.fromEntries(
+    MAPPABLE_FIELD_KEYS.map((f) => [f, mapping[f] === undefined ? detected[f] : keep(mapping[f])])
+  ) as Record<MappableField, string | null>;
+  return { ...fields, linked: (mapping.linked || []).filter((h) => available.has(h)) };
+}
+
+// Jira exporta campos multivalor (etiquetas, componentes) como columnas repetidas; Papa las
+// renombra a "etiquetas", "etiquetas_1", ... Devuelve la columna mapeada y sus repeticiones.
+function repeatedColumns(headers: string[], header: string | null) {
+  if (!header) return [] as string[];
+  const repeated = new RegExp(`^${header.replace(/[.*+?^${}()|[\]\\]/g, "\\$&")}_\\d+$`);
+  return headers.filter((h) => h === header || repeated.test(h));
+}
+
+function splitMultiValue(values: any[]) {
+  return Array.from(
+    new Set(
+      values
+        .flatMap((v) => String(coalesce(v, "")).split(/[,;]/))
+        .map((v) => v.trim())
+        .filter(Boolean)
+    )
+  );
+}
+
+// --- Validación por fila (reporte de importación) ---
+export type RowIssue = {
+  line: number; // línea del archivo (CSV: header = 1) o índice del issue (JSON)
+  column: string;
+  value: string;
+  reason: string;
+  action: "omitida" | "ajustada";
+};
+
+export function localDateFields(creada: Date, timeZone: string) {
+  const p = zonedParts(creada, timeZone);
+  return {
+    year: p.year,
+    month: `${p.year}-${String(p.month).padStart(2, "0")}`,
+    date: `${p.year}-${String(p.month).padStart(2, "0")}-${String(p.day).padStart(2, "0")}`,
+    hour: p.hour,
+    weekday: p.weekday,
+  };
+}
+
+export type ProgressCallback = (done: number, total: number) => void;
+
+// Frecuencia (en filas) con la que se reporta avance durante la normalización
+const PROGRESS_EVERY = 2000;
+
+export type JiraBuildResult = {
+  parsed: Row[];
+  issues: RowIssue[];
+  badDate: number;
+  badDateSamples: string[];
+  dateFormats: Record<string, number>;
+};
+
+export function buildJiraRows(
+  data: Array<Record<string, any>>,
+  mapping: JiraColumnMapping,
+  timeZones: TimeZoneSettings,
+  onProgress?: ProgressCallback,
+  lineNumbers?: number[] // línea real de cada registro en el CSV; sin ella se asume una línea por registro
+): JiraBuildResult {
+  const parsed: Row[] = [];
+  const issues: RowIssue[] = [];
+  let badDate = 0;
+  const badDateSamples: string[] = [];
+  const dateFormats: Record<string, number> = {};
+  const col = (r: Record<string, any>, field: MappableField) => {
+    const header = mapping[field];
+    return header ? r[header] : undefined;
+  };
+  const colName = (field: MappableField) => mapping[field] || "(sin mapear)";
+  const headers = data.length ? Object.keys(data[0]) : [];
+  const labelColumns = repeatedColumns(headers, mapping.labels);
+  const componentColumns = repeatedColumns(headers, mapping.components);
+
+  data.forEach((r, i) => {
+    if (onProgress && i % PROGRESS_EVERY === 0) onProgress(i, data.length);
+    const line = lineNumbers?.[i] ?? i + 2;
+    const creadaRaw = String(coalesce(col(r, "creada"), "")).trim();
+    const created = parseCreatedWithFormat(creadaRaw, timeZones.source);
+    if (!created) {
+      badDate += 1;
+      if (badDateSamples.length < 3 && creadaRaw && !badDateSamples.includes(creadaRaw)) badDateSamples.push(creadaRaw);
+      issues.push({
+        line,
+        column: colName("creada"),
+        value: creadaRaw,
+        reason: creadaRaw ? "Fecha 'Creada' no interpretable" : "Fecha 'Creada' vacía",
+        action: "omitida",
+      });
+      return;
+    }
+    const creada = created.date;
+    dateFormats[created.format] = (dateFormats[created.format] || 0) + 1;
+
+    // Los estados excluidos (p.ej. Block/Hold) se filtran según la taxonomía de estados, no al importar
+    const estado = String(coalesce(col(r, "estado"), "")).trim();
+
+    const slaColumn = (field: "slaResponse" | "slaResolution") => {
+      const raw = col(r, field);
+      const hours = parseSlaHours(raw);
+      if (hours == null && String(coalesce(raw, "")).trim() !== "") {
+        issues.push({
+          line,
+          column: colName(field),
+          value: String(raw).trim(),
+          reason: "SLA no interpretable; se considera Cumplido",
+          action: "ajustada",
+        });
+      }
+      const status: Row["slaResponseStatus"] = hours != null && hours < 0 ? "Incumplido" : "Cumplido";
+      return { hours, status };
+    };
+    const slaResponse = slaColumn("slaResponse");
+    const slaResolution = slaColumn("slaResolution");
+
+    const satRaw = col(r, "satisfaction");
+    const satStr = satRaw == null ? "" : String(satRaw).trim();
+    const satVal = satStr === "" ? null : Number(satStr);
+    const sat = Number.isFinite(satVal as any) ? (satVal as number) : null;
+    if (satStr !== "" && sat == null) {
+      issues.push({
+        line,
+        column: colName("satisfaction"),
+        value: satStr,
+        reason: "Satisfacción no numérica; se ignora",
+        action: "ajustada",
+      });
+    }
+
+    // Fechas opcionales: si no se interpretan se ignoran (el ticket se mantiene)
+    const optionalDate = (field: MappableField) => {
+      const raw = String(coalesce(col(r, field), "")).trim();
+      if (!raw) return null;
+      const parsedDate = parseCreatedWithFormat(raw, timeZones.source);
+      if (!parsedDate) {
+        issues.push({ line, column: colName(field), value: raw, reason: "Fecha no interpretable; se ignora", action: "ajustada" });
+        return null;
+      }
+      return parsedDate.date;
+    };
+    const resolvedAt = optionalDate("resolved");
+    const updatedAt = optionalDate("updated");
+
+    const org = String(coalesce(col(r, "organization"), "")).trim();
+
+    const linkedMatches = mapping.linked.flatMap((c) => {
+      const raw = String(coalesce(r[c], "")).trim();
+      if (!raw) return [] as string[];
+      const matches = raw.match(/\bHDI-\d+\b/gi);
+      return matches ? matches : [];
+    });
+
+    const linkedKeys = Array.from(
+      new Set(linkedMatches.map((x) => String(x).toUpperCase().trim()).filter(Boolean))
+    );
+
+    parsed.push({
+      key: String(coalesce(col(r, "key"), "")).trim(),
+      organization: org,
+      estado,
+      asignado: String(coalesce(col(r, "asignado"), "")).trim(),
+      linkedKeys,
+      creada,
+      ...localDateFields(creada, timeZones.display),
+      slaResponseHours: slaResponse.hours,
+      slaResponseStatus: slaResponse.status,
+      slaResolutionHours: slaResolution.hours,
+      slaResolutionStatus: slaResolution.status,
+      satisfaction: sat,
+      resolvedAt,
+      updatedAt,
+      priority: String(coalesce(col(r, "priority"), "")).trim(),
+      issueType: String(coalesce(col(r, "issueType"), "")).trim(),
+      requestType: String(coalesce(col(r, "requestType"), "")).trim(),
+      labels: splitMultiValue(labelColumns.map((c) => r[c])),
+      components: splitMultiValue(componentColumns.map((c) => r[c])),
+    });
+  });
+
+  return { parsed, issues, badDate, badDateSamples, dateFormats };
+}
+
+// --- Jira JSON (respuesta REST /search) ---
+
+// Solo lo que lee la ingesta; todo es opcional porque el export puede venir recortado
+type JiraNamed = { name?: string | null };
+
+type JiraIssueFields = {
+  created?: string | null;
+  updated?: string | null;
+  resolutiondate?: string | null;
+  status?: JiraNamed | null;
+  assignee?: { displayName?: string | null } | null;
+  priority?: JiraNamed | null;
+  issuetype?: JiraNamed | null;
+  labels?: string[];
+  components?: Array<JiraNamed | null>;
+  issuelinks?: Array<{ outwardIssue?: { key?: string }; inwardIssue?: { key?: string } }>;
+  // customfield_* (organizaciones, SLA, satisfacción, request type): se detectan por nombre o forma
+  [fieldId: string]: unknown;
+};
+
+type JiraIssue = { key?: string; fields?: JiraIssueFields | null };
+
+// Una página de /search o un array de páginas concatenadas
+type JiraSearchResponse = { issues?: JiraIssue[]; names?: Record<string, string> };
+
+function findCustomFieldId(
+  fields: Record<string, any>,
+  names: Record<string, string>,
+  namePattern: RegExp,
+  shape: (value: any) => boolean
+) {
+  const byName = Object.keys(names).find((id) => namePattern.test(String(names[id] || "")));
+  if (byName) return byName;
+  return Object.keys(fields).find((id) => id.startsWith("customfield_") && fields[id] != null && shape(fields[id]));
+}
+
+function slaCycleHours(sla: any) {
+  if (!sla || typeof sla !== "object") return null;
+  const completed = Array.isArray(sla.completedCycles) ? sla.completedCycles : [];
+  const cycle = completed.length ? completed[completed.length - 1] : sla.ongoingCycle;
+  const millis = cycle && cycle.remainingTime ? Number(cycle.remainingTime.millis) : NaN;
+  return Number.isFinite(millis) ? millis / 3600000 : null;
+}
+
+export function buildJiraRowsFromSearchJson(
+  json: JiraSearchResponse | JiraSearchResponse[] | null,
+  timeZones: TimeZoneSettings,
+  onProgress?: ProgressCallback
+): JiraBuildResult & { issueCount: number } {
+  const pages = Array.isArray(json) ? json : [json];
+  const issues = pages.flatMap((page) => (page && Array.isArray(page.issues) ? page.issues : []));
+  const names: Record<string, string> = Object.assign({}, ...pages.map((page) => (page && page.names) || {}));
+
+  const parsed: Row[] = [];
+  const rowIssues: RowIssue[] = [];
+  let badDate = 0;
+  const badDateSamples: string[] = [];
+  const dateFormats: Record<string, number> = {};
+
+  issues.forEach((issue, i) => {
+    if (onProgress && i % PROGRESS_EVERY === 0) onProgress(i, issues.length);
+    const line = i + 1;
+    const fields: JiraIssueFields = (issue && issue.fields) || {};
+    const createdRaw = String(fields.created || "");
+    const created = parseCreatedWithFormat(createdRaw, timeZones.source);
+    if (!created) {
+      badDate += 1;
+      if (badDateSamples.length < 3 && createdRaw) badDateSamples.push(createdRaw);
+      rowIssues.push({
+        line,
+        column: "fields.created",
+        value: createdRaw,
+        reason: createdRaw ? "Fecha 'created' no interpretable" : "Fecha 'created' vacía",
+        action: "omitida",
+      });
+      return;
+    }
+    const creada = created.date;
+    dateFormats[created.format] = (dateFormats[created.format] || 0) + 1;
+
+    const estado = String((fields.status && fields.status.name) || "").trim();
+
+    const orgField = findCustomFieldId(
+      fields,
+      names,
+      /^organi[sz]ations?$/i,
+      (v) => Array.isArray(v) && v.length > 0 && v[0] && v[0].name != null && v[0].accountId == null
+    );
+    const orgs = orgField && Array.isArray(fields[orgField]) ? (fields[orgField] as Array<JiraNamed | null>) : [];
+    const organization = String((orgs[0] && orgs[0].name) || "").trim();
+
+    const slaField = findCustomFieldId(
+      fields,
+      names,
+      /time to first response/i,
+      (v) => v && typeof v === "object" && /first response/i.test(String(v.name || ""))
+    );
+    const slaResp = slaField ? slaCycleHours(fields[slaField]) : null;
+
+    const slaResolutionField = findCustomFieldId(
+      fields,
+      names,
+      /time to resolution/i,
+      (v) => v && typeof v === "object" && /resolution/i.test(String(v.name || ""))
+    );
+    const slaResolution = slaResolutionField ? slaCycleHours(fields[slaResolutionField]) : null;
+
+    const satField = findCustomFieldId(
+      fields,
+      names,
+      /satisfa/i,
+      (v) => v && typeof v === "object" && Number.isFinite(Number(v.rating))
+    );
+    const sat = satField ? (fields[satField] as { rating?: unknown } | null) : null;
+    const satVal = sat ? Number(sat.rating) : NaN;
+
+    const requestTypeField = findCustomFieldId(
+      fields,
+      names,
+      /request type/i,
+      (v) => v && typeof v === "object" && v.requestType && v.requestType.name != null
+    );
+    const requestTypeValue = requestTypeField
+      ? (fields[requestTypeField] as { requestType?: JiraNamed | null } | null)
+      : null;
+    const requestType =
+      requestTypeValue && requestTypeValue.requestType ? String(requestTypeValue.requestType.name || "").trim() : "";
+
+    const linkedKeys = Array.from(
+      new Set(
+        (Array.isArray(fields.issuelinks) ? fields.issuelinks : [])
+          .map((l) => String((l.outwardIssue && l.outwardIssue.key) || (l.inwardIssue && l.inwardIssue.key) || ""))
+          .map((k) => k.toUpperCase().trim())
+          .filter((k) => /^HDI-\d+$/.test(k))
+      )
+    );
+
+    parsed.push({
+      key: String(issue.key || "").trim(),
+      organization,
+      estado,
+      asignado: String((fields.assignee && fields.assignee.displayName) || "").trim(),
+      linkedKeys,
+      creada,
+      ...localDateFields(creada, timeZones.display),
+      slaResponseHours: slaResp,
+      slaResponseStatus: slaResp != null && slaResp < 0 ? "Incumplido" : "Cumplido",
+      slaResolutionHours: slaResolution,
+      slaResolutionStatus: slaResolution != null && slaResolution < 0 ? "Incumplido" : "Cumplido",
+      satisfaction: Number.isFinite(satVal) ? satVal : null,
+      resolvedAt: parseJiraIsoDate(fields.resolutiondate),
+      updatedAt: parseJiraIsoDate(fields.updated),
+      priority: String((fields.priority && fields.priority.name) || "").trim(),
+      issueType: String((fields.issuetype && fields.issuetype.name) || "").trim(),
+      requestType,
+      labels: splitMultiValue(Array.isArray(fields.labels) ? fields.labels : []),
+      components: splitMultiValue(Array.isArray(fields.components) ? fields.components.map((c) => c && c.name) : []),
+    });
+  });
+
+  return { parsed, issues: rowIssues, badDate, badDateSamples, dateFormats, issueCount: issues.length };
+}
+
+// Merge de exports Jira: de-duplica por Row.key; el último export manda en estado/asignado
+export function mergeJiraRows(existing: Row[], incoming: Row[]) {
+  const byKey = new Map<string, Row>();
+  const withoutKey: Row[] = [];
+  existing.forEach((r) => {
+    if (r.key) byKey.set(r.key, r);
+    else withoutKey.push(r);
+  });
+
+  let added = 0;
+  let updated = 0;
+  let duplicated = 0;
+
+  for (const r of incoming) {
+    if (!r.key) {
+      withoutKey.push(r);
+      added += 1;
+      continue;
+    }
+    const prev = byKey.get(r.key);
+    if (!prev) {
+      byKey.set(r.key, r);
+      added += 1;
+      continue;
+    }
+    const changed = prev.estado !== r.estado || prev.asignado !== r.asignado;
+    byKey.set(r.key, {
+      ...prev,
+      estado: r.estado,
+      asignado: r.asignado,
+      organization: r.organization || prev.organization,
+      linkedKeys: Array.from(new Set([...prev.linkedKeys, ...r.linkedKeys])),
+      slaResponseHours: coalesce(r.slaResponseHours, prev.slaResponseHours),
+      slaResponseStatus: r.slaResponseHours != null ? r.slaResponseStatus : prev.slaResponseStatus,
+      slaResolutionHours: coalesce(r.slaResolutionHours, prev.slaResolutionHours),
+      slaResolutionStatus: r.slaResolutionHours != null ? r.slaResolutionStatus : prev.slaResolutionStatus,
+      satisfaction: coalesce(r.satisfaction, prev.satisfaction),
+      resolvedAt: coalesce(r.resolvedAt, prev.resolvedAt),
+      updatedAt:
+        r.updatedAt && (!prev.updatedAt || r.updatedAt.getTime() > prev.updatedAt.getTime()) ? r.updatedAt : prev.updatedAt,
+      priority: r.priority || prev.priority,
+      issueType: r.issueType || prev.issueType,
+      requestType: r.requestType || prev.requestType,
+      labels: r.labels.length ? r.labels : prev.labels,
+      components: r.components.length ? r.components : prev.components,
+    });
+    if (changed) updated += 1;
+    else duplicated += 1;
+  }
+
+  const merged = [...byKey.values(), ...withoutKey].sort((a, b) => a.creada.getTime() - b.creada.getTime());
+  return { rows: merged, added, updated, duplicated };
+}
+
+export function buildJanisRows(data: Array<Record<string, any>>, lineNumbers?: number[]) {
+  const parsed: JanisRow[] = [];
+  const issues: RowIssue[] = [];
+
+  data.forEach((raw, i) => {
+    const line = lineNumbers?.[i] ?? i + 2;
+    const clientCode = String(coalesce(raw?.clientCode, "")).trim();
+    const monthRaw = String(coalesce(raw?.month, "")).trim();
+    const yearRaw = String(coalesce(raw?.year, "")).trim();
+    const totalOrdersRaw = String(coalesce(raw?.totalOrders, "")).trim();
+    const monthNum = Number(monthRaw);
+    const yearNum = Number(yearRaw);
+    const totalOrdersNum = Number(totalOrdersRaw);
+
+    const skip = (column: string, value: string, reason: string) =>
+      issues.push({ line, column, value, reason, action: "omitida" });
+
+    if (!clientCode) return skip("clientCode", "", "clientCode vacío");
+    if (!yearRaw || !Number.isFinite(yearNum)) return skip("year", yearRaw, "Año no numérico");
+    if (!Number.isFinite(monthNum) || monthNum < 1 || monthNum > 12) {
+      return skip("month", monthRaw, "Mes fuera de rango (1-12)");
+    }
+    if (!Number.isFinite(totalOrdersNum)) return skip("totalOrders", totalOrdersRaw, "totalOrders no numérico");
+    if (!totalOrdersRaw) {
+      issues.push({ line, column: "totalOrders", value: "", reason: "totalOrders vacío; se considera 0", action: "ajustada" });
+    }
+
+    parsed.push({
+      clientCode,
+      month: `${yearNum}-${String(monthNum).padStart(2, "0")}`,
+      year: yearNum,
+      totalOrders: totalOrdersNum,
+    });
+  });
+
+  return { parsed, issues };
+}
@@ -0,0 +1,157 @@
+/// <reference lib="webworker" />
+/**
+ * Worker de ingesta: parsea CSV/JSON en streaming y devuelve `Row[]` / `JanisRow[]`
+ * ya normalizados, para no bloquear la UI con archivos grandes.
+ *
+ * Flujo Jira CSV: "jira-csv" -> "jira-headers" (el hilo principal resuelve el mapeo)
+ * -> "jira-apply-mapping" -> "jira-rows". Cancelar = `worker.terminate()`.
+ */
+import Papa from "papaparse";
+import {
+  buildJanisRows,
+  buildJiraRows,
+  buildJiraRowsFromSearchJson,
+  type JanisRow,
+  type JiraBuildResult,
+  type JiraColumnMapping,
+  type RowIssue,
+  type TimeZoneSettings,
+} from "./ingest";
+
+export type IngestRequest =
+  | { type: "jira-csv"; file: File }
+  | { type: "jira-json"; file: File; timeZones: TimeZoneSettings }
+  | { type: "jira-apply-mapping"; mapping: JiraColumnMapping; timeZones: TimeZoneSettings; note?: string }
+  | { type: "janis-csv"; file: File };
+
+export type IngestResponse =
+  | { type: "progress"; phase: "Lectura" | "Normalización"; done: number; total: number }
+  | {
+      type: "jira-headers";
+      fileName: string;
+      headers: string[];
+      sample: Array<Record<string, any>>;
+      rowCount: number;
+    }
+  | { type: "jira-rows"; fileName: string; result: JiraBuildResult; issueCount?: number; note?: string }
+  | { type: "janis-rows"; fileName: string; parsed: JanisRow[]; issues: RowIssue[] }
+  | { type: "error"; message: string };
+
+const ctx = self as unknown as DedicatedWorkerGlobalScope;
+const SAMPLE_SIZE = 50;
+
+// Registros Jira crudos (y su línea en el archivo) a la espera del mapeo de columnas
+let pendingJira: { fileName: string; records: Array<Record<string, any>>; lines: number[] } | null = null;
+
+function post(msg: IngestResponse) {
+  ctx.postMessage(msg);
+}
+
+function normalizeProgress(done: number, total: number) {
+  post({ type: "progress", phase: "Normalización", done, total });
+}
+
+// Saltos de línea dentro de los valores (campos entre comillas con Descripción, comentarios...)
+function newlinesIn(record: Record<string, any>) {
+  let n = 0;
+  Object.values(record).forEach((v) => {
+    (Array.isArray(v) ? v : [v]).forEach((x) => {
+      if (typeof x === "string") n += (x.match(/\r\n|\r|\n/g) || []).length;
+    });
+  });
+  return n;
+}
+
+// Línea vacía del archivo: Papa la entrega como un registro con un único campo vacío
+function isEmptyLine(record: Record<string, any>) {
+  const keys = Object.keys(record);
+  return keys.length === 1 && record[keys[0]] === "";
+}
+
+function streamCsv(
+  file: File,
+  transformHeader: ((h: string) => string) | undefined,
+  onDone: (records: Array<Record<string, any>>, headers: string[], lines: number[]) => void
+) {
+  const records: Array<Record<string, any>> = [];
+  const lines: number[] = [];
+  let headers: string[] = [];
+  // Las líneas vacías se descartan a mano (no `skipEmptyLines`) para no perder la cuenta de líneas
+  let nextLine = 2;
+
+  Papa.parse(file, {
+    header: true,
+    transformHeader,
+    chunkSize: 512 * 1024,
+    chunk: (res: any) => {
+      for (const r of res.data || []) {
+        if (!r) continue;
+        const line = nextLine;
+        nextLine += 1 + newlinesIn(r);
+        if (isEmptyLine(r)) continue;
+        records.push(r);
+        lines.push(line);
+      }
+      if (!headers.length && res.meta && res.meta.fields) headers = res.meta.fields.filter(Boolean);
+      post({ type: "progress", phase: "Lectura", done: Number(res.meta && res.meta.cursor) || 0, total: file.size });
+    },
+    complete: () => onDone(records, headers, lines),
+    error: (err: any) => post({ type: "error", message: (err && err.message) || "Error leyendo el CSV" }),
+  });
+}
+
+ctx.onmessage = async (e: MessageEvent<IngestRequest>) => {
+  const req = e.data;
+  try {
+    switch (req.type) {
+      case "jira-csv":
+        streamCsv(
+          req.file,
+          (h) => String(h || "").trim().toLowerCase(),
+          (records, headers, lines) => {
+            pendingJira = { fileName: req.file.name, records, lines };
+            post({
+              type: "jira-headers",
+              fileName: req.file.name,
+              headers,
+              sample: records.slice(0, SAMPLE_SIZE),
+              rowCount: records.length,
+            });
+          }
+        );
+        break;
+
+      case "jira-apply-mapping": {
+        if (!pendingJira) throw new Error("No hay un CSV de Jira pendiente de mapeo.");
+        const result = buildJiraRows(
+          pendingJira.records,
+          req.mapping,
+          req.timeZones,
+          normalizeProgress,
+          pendingJira.lines
+        );
+        post({ type: "jira-rows", fileName: pendingJira.fileName, result, note: req.note });
+        pendingJira = null;
+        break;
+      }
+
+      case "jira-json": {
+        post({ type: "progress", phase: "Lectura", done: 0, total: req.file.size });
+        const json = JSON.parse(await req.file.text());
+        post({ type: "progress", phase: "Lectura", done: req.file.size, total: req.file.size });
+        const { issueCount, ...result } = buildJiraRowsFromSearchJson(json, req.timeZones, normalizeProgress);
+        post({ type: "jira-rows", fileName: req.file.name, result, issueCount });
+        break;
+      }
+
+      case "janis-csv":
+        streamCsv(req.file, undefined, (records, _headers, lines) => {
+          const { parsed, issues } = buildJanisRows(records, lines);
+          post({ type: "janis-rows", fileName: req.file.name, parsed, issues });
+        });
+        break;
+    }
+  } catch (err: any) {
+    post({ type: "error", message: (err && err.message) || "Error procesando el archivo" });
+  }
+};
@@ -0,0 +1,119 @@
+/**
+ * Historial de snapshots: cada export Jira etiquetado con una fecha es una foto del estado de sus tickets.
+ *
+ * Comparando fotos consecutivas se obtiene el backlog en cada fecha, las transiciones de estado
+ * entre fotos y las reaperturas (cerrado en una foto, abierto o en espera en la siguiente).
+ */
+import type { Row } from "@/ingest";
+import { isBacklogCategory, isClosedCategory, statusKey, type StatusCategory } from "@/statusTaxonomy";
+
+export type SnapshotTicket = { estado: string; organization: string };
+
+export type Snapshot = {
+  id: string;
+  date: string; // YYYY-MM-DD
+  fileName: string;
+  tickets: Map<string, SnapshotTicket>; // por key Jira
+};
+
+export type SnapshotPoint = {
+  id: string;
+  date: string;
+  fileName: string;
+  tickets: number;
+  backlog: number;
+  // Respecto de la foto anterior (0 en la primera)
+  newTickets: number;
+  transitions: number;
+  reopens: number;
+};
+
+export type StatusTransition = { from: string; to: string; count: number };
+
+export type Reopen = {
+  key: string;
+  organization: string;
+  from: string;
+  to: string;
+  fromDate: string;
+  toDate: string;
+};
+
+export type SnapshotHistory = {
+  points: SnapshotPoint[];
+  transitions: StatusTransition[];
+  reopens: Reopen[];
+};
+
+// Las filas sin key no se pueden seguir entre fotos
+export function toSnapshot(id: string, date: string, fileName: string, rows: Row[]): Snapshot {
+  const tickets = new Map<string, SnapshotTicket>();
+  rows.forEach((r) => {
+    if (r.key) tickets.set(r.key, { estado: String(r.estado || "").trim(), organization: r.organization });
+  });
+  return { id, date, fileName, tickets };
+}
+
+export function buildSnapshotHistory(
+  snapshots: Snapshot[],
+  statusCategoryOf: (estado: string) => StatusCategory
+): SnapshotHistory {
+  const sorted = [...snapshots].sort((a, b) => a.date.localeCompare(b.date) || a.id.localeCompare(b.id));
+  const transitionCounts = new Map<string, StatusTransition>();
+  const reopens: Reopen[] = [];
+
+  const points = sorted.map((snap, i) => {
+    const prev = i > 0 ? sorted[i - 1] : null;
+    let backlog = 0;
+    let newTickets = 0;
+    let transitions = 0;
+    let reopenCount = 0;
+    snap.tickets.forEach((t, key) => {
+      const category = statusCategoryOf(t.estado);
+      if (isBacklogCategory(category)) backlog++;
+      if (!prev) return;
+      const before = prev.tickets.get(key);
+      if (!before) {
+        newTickets++;
+        return;
+      }
+      if (statusKey(before.estado) === statusKey(t.estado)) return;
+
+      transitions++;
+      const tKey = `${statusKey(before.estado)}\u0000${statusKey(t.estado)}`;
+      const cur = transitionCounts.get(tKey) || { from: before.estado, to: t.estado, count: 0 };
+      cur.count++;
+      transitionCounts.set(tKey, cur);
+
+      if (isClosedCategory(statusCategoryOf(before.estado)) && isBacklogCategory(category)) {
+        reopenCount++;
+        reopens.push({
+          key,
+          organization: t.organization,
+          from: before.estado,
+          to: t.estado,
+          fromDate: prev.date,
+          toDate: snap.date,
+        });
+      }
+    });
+    return {
+      id: snap.id,
+      date: snap.date,
+      fileName: snap.fileName,
+      tickets: snap.tickets.size,
+      backlog,
+      newTickets,
+      transitions,
+      reopens: reopenCount,
+    };
+  });
+
+  return {
+    points,
+    transitions: Array.from(transitionCounts.values()).sort(
+      (a, b) => b.count - a.count || a.from.localeCompare(b.from) || a.to.localeCompare(b.to)
+    ),
+    reopens: reopens.sort((a, b) => b.toDate.localeCompare(a.toDate) || a.key.localeCompare(b.key)),
+  };
+}
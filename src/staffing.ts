@@ -0,0 +1,151 @@
+/**
+ * Dotación del equipo Care: agentes con fecha de inicio/fin y % FTE.
+ *
+ * La dotación de un mes es la suma de FTE de cada agente, prorrateada por los días
+ * del mes en que estuvo activo (alimenta Tickets/Persona y su badge de salud).
+ * Los días-agente disponibles descuentan además días no hábiles (calendario) y ausencias.
+ */
+import Papa from "papaparse";
+import { normalizeHeader, parseDayDate } from "@/businessCalendar";
+
+export type StaffAgent = {
+  id: string;
+  name: string;
+  startDate: string; // YYYY-MM-DD
+  endDate: string | null; // YYYY-MM-DD inclusive; null = vigente
+  ftePct: number; // 0-100
+};
+
+// Dotación histórica previa al editor: 5 personas Jun-2024 a Jun-2025, 3 desde Jul-2025
+export const DEFAULT_ROSTER: StaffAgent[] = [
+  { id: "agent-1", name: "Agente 1", startDate: "2024-06-01", endDate: null, ftePct: 100 },
+  { id: "agent-2", name: "Agente 2", startDate: "2024-06-01", endDate: null, ftePct: 100 },
+  { id: "agent-3", name: "Agente 3", startDate: "2024-06-01", endDate: null, ftePct: 100 },
+  { id: "agent-4", name: "Agente 4", startDate: "2024-06-01", endDate: "2025-06-30", ftePct: 100 },
+  { id: "agent-5", name: "Agente 5", startDate: "2024-06-01", endDate: "2025-06-30", ftePct: 100 },
+];
+
+// Ausencia (vacaciones, licencia...) de un agente, por nombre para cruzar con el asignado Jira
+export type StaffAbsence = {
+  id: string;
+  agentName: string;
+  from: string; // YYYY-MM-DD
+  to: string; // YYYY-MM-DD inclusive
+  reason: string;
+};
+
+export const ABSENCE_REASONS = ["Vacaciones", "Licencia", "Capacitación", "Otro"];
+
+export function newAgentId() {
+  return `agent-${Date.now().toString(36)}-${Math.random().toString(36).slice(2, 6)}`;
+}
+
+function dayNumber(isoDate: string) {
+  const [y, m, d] = isoDate.split("-").map(Number);
+  return Date.UTC(y, m - 1, d) / 86400000;
+}
+
+// Días (inclusive) en que el agente está activo dentro de [from, to]
+export function activeDaysInRange(agent: StaffAgent, from: string, to: string) {
+  const start = Math.max(dayNumber(agent.startDate), dayNumber(from));
+  const end = Math.min(agent.endDate ? dayNumber(agent.endDate) : Infinity, dayNumber(to));
+  return end >= start ? end - start + 1 : 0;
+}
+
+export function monthRange(monthStr: string) {
+  const [y, m] = String(monthStr || "").split("-").map(Number);
+  if (!Number.isFinite(y) || !Number.isFinite(m) || m < 1 || m > 12) return null;
+  const lastDay = new Date(Date.UTC(y, m, 0)).getUTCDate();
+  const mm = String(m).padStart(2, "0");
+  return { from: `${y}-${mm}-01`, to: `${y}-${mm}-${String(lastDay).padStart(2, "0")}`, days: lastDay };
+}
+
+// Personas equivalentes (FTE) en el mes; null si no hay nadie activo
+export function teamSizeForMonth(roster: StaffAgent[], monthStr: string) {
+  const range = monthRange(monthStr);
+  if (!range) return null;
+  const fte = roster.reduce(
+    (sum, a) => sum + (a.ftePct / 100) * (activeDaysInRange(a, range.from, range.to) / range.days),
+    0
+  );
+  return fte > 0 ? Math.round(fte * 100) / 100 : null;
+}
+
+export function agentKey(name: string) {
+  return normalizeHeader(name);
+}
+
+// Día hábil según calendario (fecha YYYY-MM-DD, weekday 0=dom); por defecto lunes a viernes
+export type WorkingDayPredicate = (date: string, weekday: number) => boolean;
+
+const isWeekdayDate: WorkingDayPredicate = (_date, weekday) => weekday >= 1 && weekday <= 5;
+
+// Días-agente hábiles disponibles en [from, to]: activos, sin ausencia, ponderados por FTE
+export function availableAgentDays(
+  agent: StaffAgent,
+  absences: StaffAbsence[],
+  from: string,
+  to: string,
+  isWorkingDay: WorkingDayPredicate = isWeekdayDate
+) {
+  const start = Math.max(dayNumber(agent.startDate), dayNumber(from));
+  const end = Math.min(agent.endDate ? dayNumber(agent.endDate) : Infinity, dayNumber(to));
+  const key = agentKey(agent.name);
+  const own = absences
+    .filter((a) => agentKey(a.agentName) === key)
+    .map((a) => ({ from: dayNumber(a.from), to: dayNumber(a.to) }));
+  let days = 0;
+  for (let d = start; d <= end; d++) {
+    const date = new Date(d * 86400000);
+    if (!isWorkingDay(date.toISOString().slice(0, 10), date.getUTCDay())) continue;
+    if (own.some((a) => d >= a.from && d <= a.to)) continue;
+    days++;
+  }
+  return (days * agent.ftePct) / 100;
+}
+
+export function availableDaysForMonth(
+  roster: StaffAgent[],
+  absences: StaffAbsence[],
+  monthStr: string,
+  isWorkingDay: WorkingDayPredicate = isWeekdayDate
+) {
+  const range = monthRange(monthStr);
+  if (!range) return 0;
+  return roster.reduce((sum, a) => sum + availableAgentDays(a, absences, range.from, range.to, isWorkingDay), 0);
+}
+
+function parseFtePct(value: any) {
+  const s = String(value ?? "").trim().replace("%", "").replace(",", ".");
+  if (!s) return 100;
+  const n = Number(s);
+  if (!Number.isFinite(n) || n <= 0) return null;
+  // 0.5 = 50%
+  return Math.min(100, n <= 1 ? n * 100 : n);
+}
+
+// CSV: nombre, inicio, fin (opcional), fte (opcional, % o fracción; por defecto 100)
+export function parseRosterCsv(text: string) {
+  const res = Papa.parse(text, { header: true, skipEmptyLines: true });
+  const headers: string[] = res.meta.fields || [];
+  const findHeader = (candidates: string[]) => headers.find((h) => candidates.includes(normalizeHeader(h)));
+  const nameHeader = findHeader(["nombre", "name", "agente", "agent"]) ?? headers[0];
+  const startHeader = findHeader(["inicio", "start", "startdate", "desde", "fechainicio"]) ?? headers[1];
+  const endHeader = findHeader(["fin", "end", "enddate", "hasta", "fechafin"]);
+  const fteHeader = findHeader(["fte", "ftepct", "dedicacion", "porcentaje"]);
+
+  const agents: StaffAgent[] = [];
+  let skipped = 0;
+  res.data.forEach((r: Record<string, any>, i: number) => {
+    const name = String(r[nameHeader] ?? "").trim();
+    const startDate = parseDayDate(r[startHeader]);
+    const endDate = endHeader ? parseDayDate(r[endHeader]) : null;
+    const ftePct = fteHeader ? parseFtePct(r[fteHeader]) : 100;
+    if (!name || !startDate || endDate === undefined || ftePct == null || (endDate && endDate < startDate)) {
+      skipped++;
+      return;
+    }
+    agents.push({ id: `${newAgentId()}-${i}`, name, startDate, endDate, ftePct });
+  });
+  return { agents, skipped };
+}
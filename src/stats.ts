@@ -0,0 +1,13 @@
+/**
+ * Estadística descriptiva compartida por los KPIs del dashboard y los módulos de análisis.
+ */
+
+// Percentil con interpolación lineal (p en 0-100); null si no hay valores
+export function percentile(values: number[], p: number) {
+  if (!values.length) return null;
+  const sorted = [...values].sort((a, b) => a - b);
+  const idx = ((sorted.length - 1) * p) / 100;
+  const lo = Math.floor(idx);
+  const hi = Math.ceil(idx);
+  return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+}
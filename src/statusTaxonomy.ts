@@ -0,0 +1,60 @@
+/**
+ * Taxonomía de estados Jira: cada `estado` se clasifica en una categoría que
+ * usan KPIs, backlog, heatmaps y el reporte ejecutivo.
+ *
+ * Los estados sin clasificación explícita caen en `defaultStatusCategory`.
+ */
+
+export type StatusCategory = "open" | "waiting" | "resolved" | "canceled" | "excluded";
+
+// Clave: estado normalizado (ver `statusKey`)
+export type StatusTaxonomy = Record<string, StatusCategory>;
+
+export const STATUS_CATEGORIES: Array<{ category: StatusCategory; label: string }> = [
+  { category: "open", label: "Abierto" },
+  { category: "waiting", label: "Esperando cliente" },
+  { category: "resolved", label: "Resuelto" },
+  { category: "canceled", label: "Cancelado" },
+  { category: "excluded", label: "Excluido" },
+];
+
+const RESOLVED_STATUSES = new Set([
+  "done",
+  "closed",
+  "resuelto",
+  "resuelta",
+  "solucionado",
+  "solucionada",
+  "resuelto/a",
+  "completado",
+  "completada",
+]);
+
+const CANCELED_STATUSES = new Set(["cancelado", "cancelada", "cancelled", "canceled", "anulado", "anulada"]);
+
+export function statusKey(estado: string) {
+  return String(estado || "").trim().toLowerCase();
+}
+
+export function defaultStatusCategory(estado: string): StatusCategory {
+  const key = statusKey(estado);
+  if (RESOLVED_STATUSES.has(key)) return "resolved";
+  if (CANCELED_STATUSES.has(key)) return "canceled";
+  if (/\b(block|hold)\b/.test(key)) return "excluded";
+  if (/(esperando|aguardando|waiting|pendiente de cliente|pending customer)/.test(key)) return "waiting";
+  return "open";
+}
+
+export function statusCategory(estado: string, taxonomy: StatusTaxonomy): StatusCategory {
+  return taxonomy[statusKey(estado)] ?? defaultStatusCategory(estado);
+}
+
+// Backlog = todo lo que sigue vivo (abierto o esperando cliente)
+export function isBacklogCategory(category: StatusCategory) {
+  return category === "open" || category === "waiting";
+}
+
+// Cerrado = resuelto o cancelado; volver de acá al backlog cuenta como reapertura
+export function isClosedCategory(category: StatusCategory) {
+  return category === "resolved" || category === "canceled";
+}